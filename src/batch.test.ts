@@ -0,0 +1,76 @@
+import { promises as fs } from 'fs';
+import { read, write, utils } from 'xlsx';
+
+import { exportBatch, importBatch } from '.';
+import { parseGraphmlFormat, getUnitsFromGraph } from './graphml';
+
+const DATA_DIR = __dirname + '/../data';
+const SIMPLE_GRAPH = DATA_DIR + '/simple.graphml';
+const LABELS_GRAPH = DATA_DIR + '/labels.graphml';
+const OUTPUT_BATCH = DATA_DIR + '/output.batch.xlsx';
+
+describe('batch.ts', () => {
+  test('export and import a combined workbook', async () => {
+    const xlsx = await exportBatch([SIMPLE_GRAPH, LABELS_GRAPH], {
+      layout: 'combined',
+    });
+
+    const wb = read(xlsx);
+    expect(wb.SheetNames).toEqual(['Content', 'Files']);
+    const files: Record<string, string>[] = utils.sheet_to_json(
+      wb.Sheets['Files']
+    );
+    expect(files.map(f => [f.file, f.yedFilename])).toEqual([
+      ['labels.graphml', 'labels.graphml'],
+      ['simple.graphml', 'simple.graphml'],
+    ]);
+
+    const rows: Record<string, string>[] = utils.sheet_to_json(
+      wb.Sheets['Content']
+    );
+    expect(rows[0]).toEqual(
+      expect.objectContaining({ file: 'labels.graphml', id: 'n0' })
+    );
+    rows[0].label = 'Asiakas';
+    rows[3].label = 'ALKU: <nimi>';
+    wb.Sheets['Content'] = utils.json_to_sheet(rows);
+    await fs.writeFile(OUTPUT_BATCH, write(wb, { type: 'buffer' }));
+
+    const results = await importBatch(DATA_DIR, OUTPUT_BATCH);
+    expect(Object.keys(results)).toEqual(['labels.graphml', 'simple.graphml']);
+
+    const labelsOf = async (xml: string) =>
+      getUnitsFromGraph(await parseGraphmlFormat(xml)).map(u => u.label);
+    expect(await labelsOf(results['labels.graphml'].xml)).toEqual([
+      'Asiakas',
+      'Order',
+      '1',
+    ]);
+    expect((await labelsOf(results['simple.graphml'].xml))[0]).toBe(
+      'ALKU: <nimi>'
+    );
+    expect(results['simple.graphml'].report.changes).toHaveLength(1);
+
+    // Rows are routed by the file column
+    rows[0].file = 'missing.graphml';
+    wb.Sheets['Content'] = utils.json_to_sheet(rows);
+    await fs.writeFile(OUTPUT_BATCH, write(wb, { type: 'buffer' }));
+    await expect(importBatch(DATA_DIR, OUTPUT_BATCH)).rejects.toThrow(
+      'Unknown file missing.graphml on row 2 of the Content sheet'
+    );
+  });
+
+  test('export a sheet per file with a pattern', async () => {
+    const xlsx = await exportBatch([DATA_DIR + '/simple*.graphml']);
+
+    const wb = read(xlsx);
+    expect(wb.SheetNames).toEqual(['simple-translated', 'simple', 'Files']);
+    const files: Record<string, string>[] = utils.sheet_to_json(
+      wb.Sheets['Files']
+    );
+    expect(files.map(f => [f.file, f.sheet])).toEqual([
+      ['simple-translated.graphml', 'simple-translated'],
+      ['simple.graphml', 'simple'],
+    ]);
+  });
+});
@@ -0,0 +1,315 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { read, write, utils, WorkSheet } from 'xlsx';
+import Debug from 'debug';
+const debug = Debug('yedxtract:batch');
+
+import { createContentSheet, getSheetRows } from './excel';
+import { parseMetadata, serializeMetadata } from './metadata';
+import { getColumns, rowsToUnits, unitsToRows } from './table';
+
+import type {
+  BatchFile,
+  BatchLayout,
+  ImportOptions,
+  TableRow,
+  XlsxOptions,
+} from './types';
+
+// Sheet listing the files and their metadata
+const FILES_SHEET = 'Files';
+// Sheet of the combined layout
+const COMBINED_SHEET = 'Content';
+const FILE_COLUMN = 'file';
+const SHEET_COLUMN = 'sheet';
+// Excel limits sheet names to 31 characters without []:*?/\
+const MAX_SHEET_NAME_LENGTH = 31;
+
+/**
+ * Find graphml files. Directories are searched recursively for `.graphml`
+ * files. Patterns may contain `*` and `?` wildcards within a path segment and
+ * `**` for any number of directories.
+ *
+ * @param inputs - Files, directories or patterns
+ * @returns Paths of the files in sorted order
+ */
+export async function findGraphmlFiles(inputs: string[]) {
+  const files = new Set<string>();
+
+  for (const input of inputs) {
+    if (/[*?]/.test(input)) {
+      for (const file of await findPattern(input)) files.add(file);
+      continue;
+    }
+
+    const stat = await fs.stat(input);
+    if (stat.isDirectory()) {
+      for (const file of await walk(input))
+        if (path.extname(file).toLowerCase() === '.graphml') files.add(file);
+    } else files.add(path.normalize(input));
+  }
+
+  debug(`Found ${files.size} graphml files`);
+  return [...files].sort();
+}
+
+/**
+ * Get the deepest directory containing all the files
+ *
+ * @param files - File paths
+ * @returns Directory path
+ */
+export function getCommonDirectory(files: string[]) {
+  const dirs = files.map(file =>
+    path.resolve(path.dirname(file)).split(path.sep)
+  );
+  const common = dirs.reduce((acc, dir) => {
+    let i = 0;
+    while (i < acc.length && acc[i] === dir[i]) i++;
+    return acc.slice(0, i);
+  });
+  return common.join(path.sep) || path.sep;
+}
+
+/**
+ * Create a workbook of multiple graphml files. The `Files` sheet contains the
+ * metadata of each file and, with the `sheets` layout, the name of its sheet.
+ *
+ * @param files - Exported units and metadata of each file
+ * @param [layout] - `sheets` (default) for a sheet per file or `combined` for
+ *                   a single Content sheet with a `file` column
+ * @param [options] - Columns to include or exclude
+ * @returns Excel file
+ */
+export function createBatchXlsx(
+  files: BatchFile[],
+  layout: BatchLayout = 'sheets',
+  options: XlsxOptions = {}
+) {
+  debug(`Creating batch Excel file (${files.length} files, ${layout})`);
+  if (files.length === 0) throw new Error('No files to export');
+
+  const sheetNames: string[] = [];
+  const sheets: Record<string, WorkSheet> = {};
+  const fileRows: Record<string, string>[] = [];
+
+  if (layout === 'combined') {
+    const rows = files.flatMap(({ file, units }) =>
+      unitsToRows(units, options).map(row => {
+        if (FILE_COLUMN in row)
+          throw new Error(
+            `Column ${FILE_COLUMN} is reserved for the file in combined workbooks`
+          );
+        return { [FILE_COLUMN]: file, ...row };
+      })
+    );
+    const columns = getColumns(rows, files[0].metadata).filter(
+      column => column !== FILE_COLUMN
+    );
+
+    sheetNames.push(COMBINED_SHEET);
+    sheets[COMBINED_SHEET] = createContentSheet(
+      rows,
+      [FILE_COLUMN, ...columns],
+      files[0].metadata.languages ?? []
+    );
+  }
+
+  for (const { file, units, metadata } of files) {
+    const fileRow: Record<string, string> = { [FILE_COLUMN]: file };
+
+    if (layout === 'sheets') {
+      const sheetName = getSheetName(file, [...sheetNames, FILES_SHEET]);
+      const rows = unitsToRows(units, options);
+      sheetNames.push(sheetName);
+      sheets[sheetName] = createContentSheet(
+        rows,
+        getColumns(rows, metadata),
+        metadata.languages ?? []
+      );
+      fileRow[SHEET_COLUMN] = sheetName;
+    }
+
+    fileRows.push({ ...fileRow, ...serializeMetadata(metadata) });
+  }
+
+  const wsFiles = utils.json_to_sheet(fileRows);
+  wsFiles['!cols'] = Object.keys(fileRows[0] ?? {}).map(column => ({
+    width: (column === FILE_COLUMN ? 30 : 15) + 0.7,
+  }));
+  sheetNames.push(FILES_SHEET);
+  sheets[FILES_SHEET] = wsFiles;
+
+  return write(
+    { SheetNames: sheetNames, Sheets: sheets },
+    { type: 'buffer', bookType: 'xlsx', compression: true }
+  ) as Buffer;
+}
+
+/**
+ * Import a workbook created with `createBatchXlsx`
+ *
+ * @param xlsx - Excel file contents
+ * @param [options] - Options object to define imported fields
+ * @returns Imported units and metadata of each file
+ */
+export function importBatchXlsx(
+  xlsx: Buffer,
+  options: ImportOptions = {}
+): BatchFile[] {
+  debug('Importing batch Excel file');
+  const workbook = read(xlsx);
+
+  const wsFiles = workbook.Sheets[FILES_SHEET];
+  if (wsFiles === undefined)
+    throw new Error(`"${FILES_SHEET}"-sheet not present, not a batch workbook`);
+  const fileRows: Record<string, unknown>[] = utils.sheet_to_json(wsFiles);
+
+  // Rows of the combined layout grouped by the file
+  const combinedRows = new Map<
+    string,
+    { rows: TableRow[]; rowNumbers: number[] }
+  >();
+  const isCombined = !fileRows.some(row => SHEET_COLUMN in row);
+  if (isCombined) {
+    const worksheet = workbook.Sheets[COMBINED_SHEET];
+    if (worksheet === undefined)
+      throw new Error(`"${COMBINED_SHEET}"-sheet not present`);
+
+    const knownFiles = fileRows.map(row => row[FILE_COLUMN]);
+    const rows: TableRow[] = utils.sheet_to_json(worksheet);
+    const rowNumbers = getSheetRows(rows);
+    rows.forEach(({ [FILE_COLUMN]: file, ...row }, i) => {
+      if (typeof file !== 'string' || !knownFiles.includes(file))
+        throw new Error(
+          `Unknown file ${file ?? '(empty)'} on row ${
+            rowNumbers[i]
+          } of the ${COMBINED_SHEET} sheet`
+        );
+      const group = combinedRows.get(file) ?? { rows: [], rowNumbers: [] };
+      group.rows.push(row);
+      group.rowNumbers.push(rowNumbers[i]);
+      combinedRows.set(file, group);
+    });
+  }
+
+  return fileRows.map(fileRow => {
+    const { [FILE_COLUMN]: file, [SHEET_COLUMN]: sheet, ...values } = fileRow;
+    if (typeof file !== 'string')
+      throw new Error(`File missing from the ${FILES_SHEET} sheet`);
+
+    const metadata = parseMetadata(values);
+    if (metadata === undefined)
+      throw new Error(
+        `Invalid metadata of ${file} in the ${FILES_SHEET} sheet`
+      );
+
+    let { rows, rowNumbers } = combinedRows.get(file) ?? {
+      rows: [],
+      rowNumbers: [],
+    };
+    if (!isCombined) {
+      const worksheet = workbook.Sheets[String(sheet)];
+      if (worksheet === undefined)
+        throw new Error(`Sheet ${sheet} of ${file} not present`);
+      rows = utils.sheet_to_json(worksheet);
+      rowNumbers = getSheetRows(rows);
+    }
+
+    return {
+      file,
+      units: rowsToUnits(rows, metadata, options, rowNumbers),
+      metadata,
+    };
+  });
+}
+
+/**
+ * Resolve a file of a batch workbook in a directory. Files outside the
+ * directory are refused.
+ *
+ * @param dir - Directory of the files
+ * @param file - Relative path with `/` separators
+ * @returns Path of the file
+ */
+export function resolveBatchFile(dir: string, file: string) {
+  const resolved = path.resolve(dir, ...file.split('/'));
+  const relative = path.relative(path.resolve(dir), resolved);
+  if (relative.startsWith('..') || path.isAbsolute(relative))
+    throw new Error(`File ${file} is outside of the directory ${dir}`);
+  return path.join(dir, ...file.split('/'));
+}
+
+/**
+ * Get the relative path of a file with `/` separators
+ */
+export function toBatchFile(baseDir: string, file: string) {
+  return path.relative(baseDir, path.resolve(file)).split(path.sep).join('/');
+}
+
+/**
+ * Get a unique sheet name for a file from its name without the extension
+ */
+function getSheetName(file: string, existing: string[]) {
+  const name =
+    path.posix
+      .basename(file, path.posix.extname(file))
+      .replace(/[[\]:*?/\\]/g, '_')
+      .slice(0, MAX_SHEET_NAME_LENGTH) || 'Sheet';
+
+  const taken = existing.map(sheet => sheet.toLowerCase());
+  let sheetName = name;
+  for (let i = 2; taken.includes(sheetName.toLowerCase()); i++) {
+    const suffix = ` (${i})`;
+    sheetName = name.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+  }
+  return sheetName;
+}
+
+async function findPattern(pattern: string) {
+  const segments = pattern.split(/[\\/]/);
+  const wildcardIndex = segments.findIndex(segment => /[*?]/.test(segment));
+  const baseDir = segments.slice(0, wildcardIndex).join('/') || '.';
+  const regex = globToRegExp(segments.slice(wildcardIndex).join('/'));
+
+  try {
+    const files = await walk(baseDir);
+    return files.filter(file =>
+      regex.test(path.relative(baseDir, file).split(path.sep).join('/'))
+    );
+  } catch (err) {
+    debug(err);
+    return [];
+  }
+}
+
+function globToRegExp(glob: string) {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (glob.startsWith('**/', i)) {
+      source += '(?:.*/)?';
+      i += 2;
+    } else if (glob.startsWith('**', i)) {
+      source += '.*';
+      i++;
+    } else if (char === '*') source += '[^/]*';
+    else if (char === '?') source += '[^/]';
+    else source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * List the files in a directory and its subdirectories
+ */
+async function walk(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...(await walk(entryPath)));
+    else if (entry.isFile()) files.push(entryPath);
+  }
+  return files;
+}
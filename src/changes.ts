@@ -0,0 +1,137 @@
+import { createHash } from 'crypto';
+import Debug from 'debug';
+const debug = Debug('yedxtract:changes');
+
+import { getUnitLabels, parseLabelColumn } from './labels';
+
+import type { ChangeStatus, OutputUnit } from './types';
+
+// Columns of the change tracking in the output order, the source hash is a
+// hidden column at the end of xlsx files
+export const STATUS_COLUMNS = ['status', 'previousLabel'];
+export const SOURCE_HASH_COLUMN = 'sourceHash';
+export const TRACKING_COLUMNS = [...STATUS_COLUMNS, SOURCE_HASH_COLUMN];
+
+const CHANGE_STATUSES: ChangeStatus[] = [
+  'new',
+  'changed',
+  'unchanged',
+  'removed',
+];
+
+/**
+ * Hash the labels of a unit. The hash does not depend on the order of the
+ * columns and empty labels are ignored.
+ *
+ * @param labels - Labels keyed by the column name
+ * @returns Hash of the source text
+ */
+export function hashSourceText(labels: Record<string, string | null>) {
+  const texts = Object.entries(labels)
+    .filter(([, text]) => text)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return createHash('md5')
+    .update(JSON.stringify(texts), 'utf8')
+    .digest('hex')
+    .slice(0, 12);
+}
+
+/**
+ * Add the hash of the labels to the units
+ *
+ * @param units - Units exported from the graph
+ * @returns Units with `sourceHash`
+ */
+export function addSourceHashes(units: OutputUnit[]) {
+  return units.map(unit => ({
+    ...unit,
+    sourceHash: hashSourceText(getUnitLabels(unit)),
+  }));
+}
+
+/**
+ * Compare the units to a previous export of the graph by their source hashes.
+ * Units of the previous export which are not in the graph are added with the
+ * status `removed`.
+ *
+ * @param units - Units with source hashes, see `addSourceHashes`
+ * @param previousUnits - Units of the previous export
+ * @returns Units with the status and the label of the previous export for
+ *          changed and removed units
+ */
+export function compareToPrevious(
+  units: OutputUnit[],
+  previousUnits: OutputUnit[]
+) {
+  const previous = new Map(
+    previousUnits
+      .filter(unit => unit.status !== 'removed')
+      .map(unit => [unit.id, unit])
+  );
+
+  const compared = units.map((unit): OutputUnit => {
+    const before = previous.get(unit.id);
+    previous.delete(unit.id);
+    if (before === undefined) return { ...unit, status: 'new' };
+
+    if (getPreviousHash(before) === unit.sourceHash)
+      return { ...unit, status: 'unchanged' };
+
+    return {
+      ...unit,
+      status: 'changed',
+      previousLabel: getSourceLabels(before).label ?? null,
+    };
+  });
+
+  const removed = [...previous.values()].map(
+    (before): OutputUnit => ({
+      id: before.id,
+      type: before.type,
+      status: 'removed',
+      previousLabel: getSourceLabels(before).label ?? null,
+      sourceHash: getPreviousHash(before),
+      fields: {},
+    })
+  );
+
+  debug(`${removed.length} units removed since the previous export`);
+  return [...compared, ...removed];
+}
+
+/**
+ * Separate the change tracking columns of a table row
+ *
+ * @param values - Values of the row
+ * @returns Values of the tracking columns and the other values
+ */
+export function splitTrackingColumns(values: Record<string, string | null>) {
+  const { status, previousLabel, sourceHash, ...rest } = values;
+
+  const tracking: Pick<OutputUnit, 'status' | 'previousLabel' | 'sourceHash'> =
+    {
+      status: CHANGE_STATUSES.find(s => s === status),
+      previousLabel,
+      sourceHash: sourceHash ?? undefined,
+    };
+  return { tracking, rest };
+}
+
+/**
+ * Get the hash of a unit of the previous export. Exports without change
+ * tracking are hashed from their labels.
+ */
+function getPreviousHash(unit: OutputUnit) {
+  return unit.sourceHash ?? hashSourceText(getSourceLabels(unit));
+}
+
+/**
+ * Get the labels of the graph at the time of the export: the original values
+ * if they were stored, as the label columns may have been edited
+ */
+function getSourceLabels(unit: OutputUnit) {
+  const labels = getUnitLabels(unit);
+  for (const [column, value] of Object.entries(unit.originals ?? {}))
+    if (parseLabelColumn(column) !== undefined) labels[column] = value;
+  return labels;
+}
@@ -0,0 +1,199 @@
+import { promises as fs } from 'fs';
+import { read, utils } from 'xlsx';
+
+import { main } from './cli';
+import { readFile } from './file';
+
+const ORIGINAL_GRAPH = __dirname + '/../data/simple.graphml';
+const TRANSLATED_EXCEL = __dirname + '/../data/simple-translated.xlsx';
+const TRANSLATED_GRAPH = __dirname + '/../data/simple-translated.graphml';
+const OUTPUT_EXCEL = __dirname + '/../data/output.xlsx';
+const OUTPUT_GRAPH = __dirname + '/../data/output.graphml';
+const OUTPUT_CONFIG = __dirname + '/../data/output.json';
+const OUTPUT_CSV = __dirname + '/../data/output.filter.csv';
+const OUTPUT_TRACKED = __dirname + '/../data/output.tracked.xlsx';
+const OUTPUT_XLIFF = __dirname + '/../data/output.cli.xlf';
+
+const run = (...args: string[]) => main(['node', 'yedxtract', ...args]);
+
+describe('cli.ts', () => {
+  let log: jest.SpyInstance;
+  let error: jest.SpyInstance;
+  let stderr: jest.SpyInstance;
+
+  beforeEach(() => {
+    log = jest.spyOn(console, 'log').mockImplementation();
+    error = jest.spyOn(console, 'error').mockImplementation();
+    stderr = jest.spyOn(process.stderr, 'write').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('export with fields as flags', async () => {
+    const code = await run(
+      'export',
+      ORIGINAL_GRAPH,
+      '-o',
+      OUTPUT_EXCEL,
+      '--node-field',
+      'configuration=$,configuration',
+      '--node-field',
+      'color=y:Fill,[0],$,color',
+      '--node-field',
+      'color2=y:Fill,[0],$,color2'
+    );
+    expect(code).toBe(0);
+
+    const expected = await fs.readFile(__dirname + '/../data/simple.xlsx');
+    expect(await fs.readFile(OUTPUT_EXCEL)).toEqual(expected);
+  });
+
+  test('export a filtered part of the graph', async () => {
+    const code = await run(
+      'export',
+      ORIGINAL_GRAPH,
+      '-o',
+      OUTPUT_CSV,
+      '--type',
+      'node',
+      '--configuration',
+      'com.yworks.flowchart.*',
+      '--with-labels'
+    );
+    expect(code).toBe(0);
+
+    const csv = await fs.readFile(OUTPUT_CSV, 'utf-8');
+    expect(csv).toContain(
+      '#filter,"{""types"":[""node""],""configurations"":[""com.yworks.flowchart.*""],""withLabels"":true}"'
+    );
+    expect(csv.match(/^node,n\d+/gm)).toEqual([
+      'node,n0',
+      'node,n2',
+      'node,n5',
+    ]);
+
+    await run('import', ORIGINAL_GRAPH, OUTPUT_CSV, '-o', OUTPUT_GRAPH);
+    expect(log).toHaveBeenCalledWith(
+      '0 units updated, 0 values changed\n' +
+        'Partial export, units not matching the export filter were not imported'
+    );
+
+    expect(
+      await run('export', ORIGINAL_GRAPH, '-o', OUTPUT_CSV, '--type', 'vertex')
+    ).toBe(1);
+    expect(error).toHaveBeenCalledWith(
+      'yedxtract: Invalid type vertex in the export filter, expected node or edge'
+    );
+  });
+
+  test('import with options from a config file', async () => {
+    const config = { fieldsToImport: { include: ['id', 'label'] } };
+    await fs.writeFile(OUTPUT_CONFIG, JSON.stringify(config));
+
+    const code = await run(
+      'import',
+      ORIGINAL_GRAPH,
+      TRANSLATED_EXCEL,
+      '-o',
+      OUTPUT_GRAPH,
+      '-c',
+      OUTPUT_CONFIG
+    );
+    expect(code).toBe(0);
+
+    const { data: expected } = await readFile(TRANSLATED_GRAPH);
+    const { data: output } = await readFile(OUTPUT_GRAPH);
+    expect(output).toEqual(expected);
+  });
+
+  test('format of a config file precedes the output extension', async () => {
+    await fs.writeFile(OUTPUT_CONFIG, JSON.stringify({ format: 'xliff2' }));
+
+    const code = await run(
+      'export',
+      ORIGINAL_GRAPH,
+      '-o',
+      OUTPUT_XLIFF,
+      '-c',
+      OUTPUT_CONFIG
+    );
+    expect(code).toBe(0);
+    expect(await fs.readFile(OUTPUT_XLIFF, 'utf-8')).toContain(
+      '<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0"'
+    );
+  });
+
+  test('export compared to the previous export of a config file', async () => {
+    expect(
+      await run('export', ORIGINAL_GRAPH, '-o', OUTPUT_EXCEL, '--track-changes')
+    ).toBe(0);
+    await fs.writeFile(
+      OUTPUT_CONFIG,
+      JSON.stringify({ previousExport: OUTPUT_EXCEL })
+    );
+
+    const code = await run(
+      'export',
+      ORIGINAL_GRAPH,
+      '-o',
+      OUTPUT_TRACKED,
+      '-c',
+      OUTPUT_CONFIG
+    );
+    expect(code).toBe(0);
+
+    const wb = read(await fs.readFile(OUTPUT_TRACKED));
+    const rows: Record<string, string>[] = utils.sheet_to_json(
+      wb.Sheets['Content']
+    );
+    expect(rows.every(row => row.status === 'unchanged')).toBe(true);
+  });
+
+  test('import fails on issues in the report', async () => {
+    const code = await run(
+      'import',
+      __dirname + '/../data/labels.graphml',
+      TRANSLATED_EXCEL,
+      '-o',
+      OUTPUT_GRAPH,
+      '--include',
+      'id,label',
+      '--fail-on',
+      'hash-mismatch,conflicts'
+    );
+    expect(code).toBe(1);
+    expect(log).toHaveBeenCalledWith(
+      expect.stringContaining('Graphml file has changed since the export')
+    );
+    expect(error).toHaveBeenCalledWith(
+      'yedxtract: Import report contains hash-mismatch'
+    );
+  });
+
+  test('inspect prints the units of the graph', async () => {
+    expect(await run('inspect', ORIGINAL_GRAPH)).toBe(0);
+    expect(log).toHaveBeenCalledWith('\n7 nodes, 6 edges');
+  });
+
+  test('invalid config file', async () => {
+    await fs.writeFile(OUTPUT_CONFIG, JSON.stringify({ fieldsToExprot: {} }));
+
+    const code = await run('export', ORIGINAL_GRAPH, '-c', OUTPUT_CONFIG);
+    expect(code).toBe(1);
+    expect(error).toHaveBeenCalledWith(
+      expect.stringContaining('Unknown option(s) in config file')
+    );
+  });
+
+  test('missing input file', async () => {
+    expect(await run('export', 'missing.graphml')).toBe(1);
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('ENOENT'));
+  });
+
+  test('unknown command', async () => {
+    expect(await run('extract', ORIGINAL_GRAPH)).not.toBe(0);
+    expect(stderr).toHaveBeenCalled();
+  });
+});
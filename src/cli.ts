@@ -0,0 +1,1076 @@
+#!/usr/bin/env node
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import {
+  Command,
+  CommanderError,
+  InvalidArgumentError,
+  Option,
+} from 'commander';
+import Debug from 'debug';
+const debug = Debug('yedxtract:cli');
+
+import {
+  DEFAULT_PLACEHOLDERS,
+  diffExcel,
+  exportBatchFile,
+  exportExcelFile,
+  formatImportDiff,
+  formatImportReport,
+  generateGraphFile,
+  getImportIssues,
+  importBatchFile,
+  importExcelFile,
+  importExcelLanguagesFile,
+  loadGlossary,
+  replaceText,
+} from '.';
+import { getFormat, getFormatByFilename, getFormatNames } from './formats';
+import { parseGraphmlFormat, getUnitsFromGraph } from './graphml';
+import { readFile } from './file';
+import { compareLabelColumns } from './labels';
+import { parseFieldPath } from './path';
+import { getStylePresetNames } from './styles';
+import { IMPORT_ISSUES } from './report';
+import { LIB_VERSION } from './version';
+
+import type {
+  BatchExportOptions,
+  BatchLayout,
+  DiffFormat,
+  ExportFilter,
+  ExportOptions,
+  ExtractFields,
+  ExtractFieldsUnit,
+  GraphLayout,
+  HashCheck,
+  ImportIssue,
+  ImportOptions,
+  ImportReport,
+  ReplaceOptions,
+  ReplaceRule,
+  StylePreset,
+  XlsxOptions,
+} from './types';
+
+/**
+ * Options which can be defined in a config file. The same file can be used
+ * for both export and import, each command uses only the options it needs.
+ */
+type ConfigFile = ExportOptions & ImportOptions;
+
+const CONFIG_KEYS = [
+  'format',
+  'fieldsToExport',
+  'exportProperties',
+  'columnsToExcel',
+  'fieldsToImport',
+  'preserveFormatting',
+  'languages',
+  'language',
+  'sourceLanguage',
+  'targetLanguage',
+  'storeOriginals',
+  'hashCheck',
+  'deduplicate',
+  'trackChanges',
+  'previousExport',
+  'workbook',
+  'translationMemory',
+  'filter',
+  'styles',
+  'createUnits',
+  'deleteUnits',
+  'nodeTemplate',
+  'edgeTemplate',
+  'rejectSelfLoops',
+  'rejectDuplicateEdges',
+  'fitLabels',
+  'fitNodes',
+  'placeholders',
+  'postProcess',
+];
+
+interface CommonFlags {
+  config?: string;
+  include?: string[];
+  exclude?: string[];
+}
+
+interface PlaceholderFlags {
+  placeholders?: boolean;
+  placeholder?: string[];
+}
+
+interface ExportFlags extends CommonFlags, PlaceholderFlags {
+  output?: string;
+  format?: string;
+  sourceLanguage?: string;
+  targetLanguage?: string;
+  properties?: boolean;
+  languages?: string[];
+  storeOriginals?: boolean;
+  deduplicate?: boolean;
+  trackChanges?: boolean;
+  previous?: string;
+  protect?: boolean;
+  validation: Record<string, string[]>;
+  translationMemory?: string;
+  type?: Array<'node' | 'edge'>;
+  unitType?: string[];
+  configuration?: string[];
+  withLabels?: boolean;
+  ids?: string[];
+  styles?: StylePreset[];
+  nodeField: ExtractFieldsUnit;
+  edgeField: ExtractFieldsUnit;
+  commonField: ExtractFieldsUnit;
+}
+
+interface ExportBatchFlags extends ExportFlags {
+  output: string;
+  layout: BatchLayout;
+  baseDir?: string;
+}
+
+interface ImportFlags extends CommonFlags, PlaceholderFlags {
+  output?: string;
+  format?: string;
+  preserveFormatting?: boolean;
+  hashCheck?: HashCheck;
+  language?: string;
+  translationMemory?: string;
+  create?: boolean;
+  delete?: boolean;
+  nodeTemplate?: string;
+  edgeTemplate?: string;
+  rejectSelfLoops?: boolean;
+  rejectDuplicateEdges?: boolean;
+  fitLabels?: boolean;
+  fitNodes?: boolean;
+  // True if the flag is given without a value
+  languages?: string[] | true;
+  failOn?: ImportIssue[];
+  dryRun?: boolean;
+  diffFormat?: DiffFormat;
+}
+
+interface ReplaceFlags extends CommonFlags {
+  output?: string;
+  find?: string;
+  replace?: string;
+  regex?: boolean;
+  ignoreCase?: boolean;
+  wholeWord?: boolean;
+  glossary?: string[];
+  properties?: boolean;
+  preserveFormatting?: boolean;
+  inPlace?: boolean;
+  dryRun?: boolean;
+  nodeField: ExtractFieldsUnit;
+  edgeField: ExtractFieldsUnit;
+  commonField: ExtractFieldsUnit;
+}
+
+interface GenerateFlags {
+  output?: string;
+  layout: GraphLayout;
+}
+
+interface InspectFlags {
+  config?: string;
+  json?: boolean;
+}
+
+/**
+ * Run the command-line interface
+ *
+ * @param argv - Command-line arguments including the node executable and the
+ *               script name, i.e. in the format of `process.argv`
+ * @returns Exit code: 0 on success, non-zero on failure
+ */
+export async function main(argv: string[] = process.argv) {
+  const program = createProgram();
+
+  try {
+    await program.parseAsync(argv);
+    return 0;
+  } catch (err) {
+    // Commander has already printed usage errors, help and version
+    if (err instanceof CommanderError) return err.exitCode;
+
+    debug(err);
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`yedxtract: ${message}`);
+    return 1;
+  }
+}
+
+function createProgram() {
+  const program = new Command();
+
+  program
+    .name('yedxtract')
+    .description('Extract texts from yEd graph editor to Excel and back')
+    .version(LIB_VERSION)
+    .exitOverride()
+    .showHelpAfterError('(add --help for additional information)');
+
+  const exportCommand = program
+    .command('export')
+    .description(
+      'Export nodes and edges of a graphml file to an xlsx, csv or json ' +
+        'file or the labels to an XLIFF or PO file'
+    )
+    .argument('<graphml>', 'input graphml file')
+    .option(
+      '-o, --output <file>',
+      'output file (default: <graphml> with the extension of the format)'
+    )
+    .addOption(
+      new Option(
+        '-f, --format <format>',
+        'output format (default: by the output file extension or xlsx)'
+      ).choices(getFormatNames())
+    )
+    .option(
+      '--source-language <code>',
+      'language of the labels in XLIFF and PO files (default: en)'
+    )
+    .option(
+      '--target-language <code>',
+      'language of the translation in XLIFF and PO files'
+    )
+    .option(
+      '--deduplicate',
+      'collapse identical labels to one row listing their ids (xlsx and csv)'
+    )
+    .option(
+      '--track-changes',
+      'store a hash of the labels of each unit for comparing the next export'
+    )
+    .option(
+      '--previous <file>',
+      'previous export of the graph, the status column tells which units ' +
+        'are new, changed, unchanged or removed since it'
+    )
+    .option(
+      '--protect',
+      'lock the read-only columns of the xlsx file, highlight the editable ' +
+        'columns and freeze the header row'
+    )
+    .option(
+      '--validation <column=values>',
+      'drop-down list of the allowed values of a column in the xlsx file, ' +
+        "e.g. 'fillColor=#FF0000,#00FF00' (repeatable)",
+      collectValidation,
+      {}
+    );
+  addExportOptions(exportCommand).action(runExport);
+
+  const exportBatchCommand = program
+    .command('export-batch')
+    .description(
+      'Export multiple graphml files to one xlsx file, e.g. all diagrams ' +
+        'of a project for translation'
+    )
+    .argument(
+      '<inputs...>',
+      'graphml files, directories or patterns such as "diagrams/**/*.graphml"'
+    )
+    .requiredOption('-o, --output <xlsx>', 'output xlsx file')
+    .addOption(
+      new Option(
+        '--layout <layout>',
+        'a sheet per file or one Content sheet with a file column'
+      )
+        .choices(['sheets', 'combined'])
+        .default('sheets')
+    )
+    .option(
+      '--base-dir <dir>',
+      'directory the file paths are relative to (default: the common ' +
+        'directory of the files)'
+    );
+  addExportOptions(exportBatchCommand).action(runExportBatch);
+
+  const importCommand = program
+    .command('import')
+    .description(
+      'Import an xlsx, csv, json, XLIFF or PO file back to a graphml file'
+    )
+    .argument('<graphml>', 'original graphml file')
+    .argument('<file>', 'exported file with updated values')
+    .option(
+      '-o, --output <graphml>',
+      'output graphml file (default: <file>.graphml), with --languages ' +
+        'use {lang} for the language (default: <file>.{lang}.graphml)'
+    )
+    .addOption(
+      new Option(
+        '-f, --format <format>',
+        'input format (default: by the file extension)'
+      ).choices(getFormatNames())
+    );
+  addImportOptions(importCommand)
+    .option(
+      '--languages [codes]',
+      'create a graphml file for each language, by default all exported ' +
+        'languages',
+      parseList
+    )
+    .option(
+      '--dry-run',
+      'print the changes per unit instead of writing the graphml file'
+    )
+    .addOption(
+      new Option('--diff-format <format>', 'format of the dry run output')
+        .choices(['text', 'json', 'html'])
+        .default('text')
+    )
+    .action(runImport);
+
+  const importBatchCommand = program
+    .command('import-batch')
+    .description(
+      'Import an xlsx file created with export-batch back to the graphml files'
+    )
+    .argument(
+      '<dir>',
+      'directory of the original graphml files, the file paths of the xlsx ' +
+        'file are relative to it'
+    )
+    .argument('<xlsx>', 'exported xlsx file with updated values')
+    .option(
+      '-o, --output <dir>',
+      'output directory (default: <xlsx> without the extension)'
+    );
+  addImportOptions(importBatchCommand).action(runImportBatch);
+
+  program
+    .command('replace')
+    .description(
+      'Replace texts in the labels and fields of graphml files, e.g. to ' +
+        'rename a term in all diagrams'
+    )
+    .argument('<graphml...>', 'graphml files')
+    .option('--find <text>', 'text to find')
+    .option('--replace <text>', 'replacement for --find', '')
+    .option('--regex', '--find is a regular expression, use $1 for groups')
+    .option('--ignore-case', 'match case-insensitively')
+    .option('--whole-word', 'match only whole words')
+    .option(
+      '-g, --glossary <file>',
+      'JSON or CSV file with the terms and their replacements (repeatable)',
+      collectList,
+      []
+    )
+    .option(
+      '-o, --output <graphml>',
+      'output graphml file for a single input file ' +
+        '(default: <graphml>.replaced.graphml)'
+    )
+    .option('--in-place', 'overwrite the input files')
+    .option('--dry-run', 'print the replacements without writing files')
+    .option('-c, --config <file>', 'JSON or JS config file with export options')
+    .option(
+      '--node-field <name=path>',
+      'replace also in a node field (repeatable)',
+      collectField,
+      {}
+    )
+    .option(
+      '--edge-field <name=path>',
+      'replace also in an edge field (repeatable)',
+      collectField,
+      {}
+    )
+    .option(
+      '--common-field <name=path>',
+      'replace also in a node and edge field (repeatable)',
+      collectField,
+      {}
+    )
+    .option('--properties', 'replace also in user-defined properties')
+    .option('--include <columns>', 'columns to replace in', parseList)
+    .option('--exclude <columns>', 'columns not to replace in', parseList)
+    .option(
+      '--preserve-formatting',
+      'change only the replaced values and keep the rest of the file intact'
+    )
+    .action(runReplace);
+
+  program
+    .command('generate')
+    .description(
+      'Generate a new graphml file of the Nodes and Edges sheets of an xlsx file'
+    )
+    .argument(
+      '<xlsx>',
+      'xlsx file with a Nodes sheet (id, label, shape, color) and an Edges ' +
+        'sheet (source, target, label)'
+    )
+    .option(
+      '-o, --output <graphml>',
+      'output graphml file (default: <xlsx>.graphml)'
+    )
+    .addOption(
+      new Option(
+        '--layout <layout>',
+        'nodes in a grid or in layers following the edges'
+      )
+        .choices(['grid', 'layered'])
+        .default('grid')
+    )
+    .action(runGenerate);
+
+  program
+    .command('inspect')
+    .description('Show the nodes and edges of a graphml file or an export')
+    .argument('<file>', 'graphml file or an exported file')
+    .option('-c, --config <file>', 'JSON or JS config file with export options')
+    .option('--json', 'print the result as JSON')
+    .action(runInspect);
+
+  return program;
+}
+
+/**
+ * Add the options shared by the export commands
+ */
+function addExportOptions(command: Command) {
+  return command
+    .option('-c, --config <file>', 'JSON or JS config file with export options')
+    .option(
+      '--node-field <name=path>',
+      "extract a node field, e.g. 'color=y:Fill/@color' or with path keys " +
+        "separated by commas 'color=y:Fill,[0],$,color' (repeatable)",
+      collectField,
+      {}
+    )
+    .option(
+      '--edge-field <name=path>',
+      'extract an edge field (repeatable)',
+      collectField,
+      {}
+    )
+    .option(
+      '--common-field <name=path>',
+      'extract a field from both nodes and edges (repeatable)',
+      collectField,
+      {}
+    )
+    .option(
+      '--properties',
+      'export user-defined properties (e.g. url, description)'
+    )
+    .option(
+      '--languages <codes>',
+      'add translation columns for the languages, e.g. fi,sv',
+      parseList
+    )
+    .option(
+      '--store-originals',
+      'store the exported values for merging the import if the graph changes'
+    )
+    .option(
+      '--translation-memory <file>',
+      'prefill the translation columns from a JSON translation memory file'
+    )
+    .option('--type <types>', 'export only nodes or edges', parseList)
+    .option(
+      '--unit-type <elements>',
+      'export only units of the types, e.g. y:GenericNode',
+      parseList
+    )
+    .option(
+      '--configuration <patterns>',
+      'export only units with the configurations, * matches any characters, ' +
+        "e.g. 'com.yworks.flowchart.*'",
+      parseList
+    )
+    .option('--with-labels', 'export only units with a non-empty label')
+    .option('--ids <ids>', 'export only the units with the ids', parseList)
+    .option(
+      '--styles <presets>',
+      `add geometry and style columns (${getStylePresetNames().join(', ')})`,
+      parseList
+    )
+    .option(
+      '--placeholders',
+      'protect placeholders such as <name>, {count} and %s in the labels'
+    )
+    .option(
+      '--placeholder <regex>',
+      'placeholder pattern instead of the defaults of --placeholders ' +
+        '(repeatable)',
+      collectList,
+      []
+    )
+    .option('--include <columns>', 'columns to export', parseList)
+    .option('--exclude <columns>', 'columns not to export', parseList);
+}
+
+/**
+ * Get the export options from the config file and the flags, flags take
+ * precedence
+ */
+async function getExportOptions(flags: ExportFlags) {
+  const config = await loadConfig(flags.config);
+
+  const options: ExportOptions = {
+    ...config,
+    fieldsToExport: mergeFields(config.fieldsToExport, {
+      node: flags.nodeField,
+      edge: flags.edgeField,
+      common: flags.commonField,
+    }),
+    columnsToExcel: mergeColumns(config.columnsToExcel, flags),
+  };
+  if (flags.properties) options.exportProperties = true;
+  if (flags.languages) options.languages = flags.languages;
+  if (flags.storeOriginals) options.storeOriginals = true;
+  if (flags.translationMemory)
+    options.translationMemory = flags.translationMemory;
+  if (flags.styles) options.styles = flags.styles;
+  const placeholders = getPlaceholders(flags);
+  if (placeholders) options.placeholders = placeholders;
+
+  const filter: ExportFilter = { ...config.filter };
+  if (flags.type) filter.types = flags.type;
+  if (flags.unitType) filter.unitTypes = flags.unitType;
+  if (flags.configuration) filter.configurations = flags.configuration;
+  if (flags.withLabels) filter.withLabels = true;
+  if (flags.ids) filter.ids = flags.ids;
+  if (Object.keys(filter).length > 0) options.filter = filter;
+  return options;
+}
+
+async function runExport(input: string, flags: ExportFlags) {
+  const options = await getExportOptions(flags);
+  if (flags.sourceLanguage) options.sourceLanguage = flags.sourceLanguage;
+  if (flags.targetLanguage) options.targetLanguage = flags.targetLanguage;
+  if (flags.deduplicate) options.deduplicate = true;
+  if (flags.trackChanges) options.trackChanges = true;
+  if (flags.previous) options.previousExport = flags.previous;
+  if (flags.protect || Object.keys(flags.validation).length > 0)
+    options.workbook = {
+      ...options.workbook,
+      ...(flags.protect && { protect: true }),
+      validation: { ...options.workbook?.validation, ...flags.validation },
+    };
+
+  const outputFormat = flags.output
+    ? getFormatByFilename(flags.output)
+    : undefined;
+  // The extension of the output file is used only if no format is given
+  options.format = flags.format ?? options.format ?? outputFormat ?? 'xlsx';
+  const output =
+    flags.output ??
+    replaceExtension(input, getFormat(options.format).extensions[0]);
+
+  await exportExcelFile(input, output, options);
+  console.log(`Exported ${input} to ${output}`);
+}
+
+async function runExportBatch(inputs: string[], flags: ExportBatchFlags) {
+  const options: BatchExportOptions = {
+    ...(await getExportOptions(flags)),
+    layout: flags.layout,
+    baseDir: flags.baseDir,
+  };
+
+  await exportBatchFile(inputs, flags.output, options);
+  console.log(`Exported ${inputs.join(', ')} to ${flags.output}`);
+}
+
+/**
+ * Add the options shared by the import commands
+ */
+function addImportOptions(command: Command) {
+  return command
+    .option('-c, --config <file>', 'JSON or JS config file with import options')
+    .option('--include <columns>', 'columns to import', parseList)
+    .option('--exclude <columns>', 'columns not to import', parseList)
+    .option(
+      '--preserve-formatting',
+      'change only the updated values and keep the rest of the file intact'
+    )
+    .addOption(
+      new Option(
+        '--hash-check <mode>',
+        'if the graph has changed since the export: warn and import, ' +
+          'refuse the import (strict) or import only the values not changed ' +
+          'in the graph (merge)'
+      ).choices(['warn', 'strict', 'merge'])
+    )
+    .option('--language <code>', 'import the translations of the language')
+    .option(
+      '--translation-memory <file>',
+      'add the imported translations to a JSON translation memory file'
+    )
+    .option('--create', 'create the nodes and edges which are not in the graph')
+    .option(
+      '--node-template <id>',
+      'copy the style of the node to the created nodes'
+    )
+    .option(
+      '--edge-template <id>',
+      'copy the style of the edge to the created edges'
+    )
+    .option(
+      '--delete',
+      'delete the nodes and edges which are not in the imported file'
+    )
+    .option('--reject-self-loops', 'fail if an edge goes from a node to itself')
+    .option(
+      '--reject-duplicate-edges',
+      'fail if an edge has the same source and target as another edge'
+    )
+    .option(
+      '--fit-labels',
+      'resize the changed labels to fit their text and report labels which ' +
+        'overflow their node'
+    )
+    .option('--fit-nodes', 'also enlarge the nodes to fit their labels')
+    .option(
+      '--placeholders',
+      'report labels whose placeholders differ from the graph, by default ' +
+        'with the patterns of the export'
+    )
+    .option(
+      '--placeholder <regex>',
+      'placeholder pattern to check (repeatable)',
+      collectList,
+      []
+    )
+    .option(
+      '--fail-on <issues>',
+      `exit with an error if the import report contains the issues (${IMPORT_ISSUES.join(
+        ', '
+      )}), the output is written anyway`,
+      parseIssues
+    );
+}
+
+/**
+ * Get the import options from the config file and the flags, flags take
+ * precedence
+ */
+async function getImportOptions(flags: ImportFlags) {
+  const config = await loadConfig(flags.config);
+
+  const options: ImportOptions = {
+    ...config,
+    fieldsToImport: mergeColumns(config.fieldsToImport, flags),
+  };
+  if (flags.preserveFormatting) options.preserveFormatting = true;
+  if (flags.language) options.language = flags.language;
+  if (flags.hashCheck) options.hashCheck = flags.hashCheck;
+  if (flags.translationMemory)
+    options.translationMemory = flags.translationMemory;
+  if (flags.create) options.createUnits = true;
+  if (flags.delete) options.deleteUnits = true;
+  if (flags.nodeTemplate) options.nodeTemplate = flags.nodeTemplate;
+  if (flags.edgeTemplate) options.edgeTemplate = flags.edgeTemplate;
+  if (flags.rejectSelfLoops) options.rejectSelfLoops = true;
+  if (flags.rejectDuplicateEdges) options.rejectDuplicateEdges = true;
+  if (flags.fitLabels) options.fitLabels = true;
+  if (flags.fitNodes) options.fitNodes = true;
+  const placeholders = getPlaceholders(flags);
+  if (placeholders) options.placeholders = placeholders;
+  return options;
+}
+
+async function runImport(input: string, file: string, flags: ImportFlags) {
+  const options = await getImportOptions(flags);
+  if (flags.format) options.format = flags.format;
+
+  if (flags.dryRun) {
+    if (flags.languages)
+      throw new Error('Use --language to preview one language with --dry-run');
+
+    const diff = await diffExcel(input, file, options);
+    console.log(formatImportDiff(diff, flags.diffFormat).trimEnd());
+    checkReports([diff.report], flags.failOn);
+    return;
+  }
+
+  if (flags.languages) {
+    if (options.language)
+      throw new Error('Use either --language or --languages, not both');
+    // `--languages` without a value imports all languages
+    const languages = Array.isArray(flags.languages)
+      ? flags.languages
+      : undefined;
+    const pattern = flags.output ?? replaceExtension(file, '.{lang}.graphml');
+
+    const outputs = await importExcelLanguagesFile(
+      input,
+      file,
+      pattern,
+      languages,
+      options
+    );
+    for (const { file: output, report } of Object.values(outputs)) {
+      console.log(`Imported ${file} to ${output}`);
+      console.log(formatImportReport(report));
+    }
+    checkReports(
+      Object.values(outputs).map(({ report }) => report),
+      flags.failOn
+    );
+    return;
+  }
+
+  const output = flags.output ?? replaceExtension(file, '.graphml');
+  if (path.resolve(output) === path.resolve(input))
+    throw new Error(
+      `Refusing to overwrite the original graphml file ${input}, use --output`
+    );
+
+  const report = await importExcelFile(input, file, output, options);
+  console.log(`Imported ${file} to ${output}`);
+  console.log(formatImportReport(report));
+  checkReports([report], flags.failOn);
+}
+
+/**
+ * Fail if the import reports contain any of the issues
+ *
+ * @param reports - Reports of the import
+ * @param [failOn] - Issues treated as failures
+ */
+function checkReports(reports: ImportReport[], failOn: ImportIssue[] = []) {
+  const issues = [...new Set(reports.flatMap(getImportIssues))].filter(issue =>
+    failOn.includes(issue)
+  );
+  if (issues.length > 0)
+    throw new Error(`Import report contains ${issues.join(', ')}`);
+}
+
+async function runImportBatch(dir: string, file: string, flags: ImportFlags) {
+  const options = await getImportOptions(flags);
+
+  const outputDir = flags.output ?? replaceExtension(file, '');
+  if (path.resolve(outputDir) === path.resolve(dir))
+    throw new Error(
+      `Refusing to overwrite the original graphml files in ${dir}, use --output`
+    );
+
+  const outputs = await importBatchFile(dir, file, outputDir, options);
+  for (const { file: output, report } of Object.values(outputs)) {
+    console.log(`Imported ${file} to ${output}`);
+    console.log(formatImportReport(report));
+  }
+  checkReports(
+    Object.values(outputs).map(({ report }) => report),
+    flags.failOn
+  );
+}
+
+async function runReplace(inputs: string[], flags: ReplaceFlags) {
+  const config = await loadConfig(flags.config);
+
+  const rules: ReplaceRule[] = [];
+  if (flags.find !== undefined)
+    rules.push({
+      find: flags.find,
+      replace: flags.replace ?? '',
+      regex: flags.regex,
+      ignoreCase: flags.ignoreCase,
+      wholeWord: flags.wholeWord,
+    });
+  for (const glossary of flags.glossary ?? [])
+    rules.push(...(await loadGlossary(glossary)));
+  if (rules.length === 0) throw new Error('Use --find or --glossary');
+
+  if (flags.output && inputs.length > 1)
+    throw new Error('--output can be used only with a single input file');
+
+  const options: ReplaceOptions = {
+    fieldsToExport: mergeFields(config.fieldsToExport, {
+      node: flags.nodeField,
+      edge: flags.edgeField,
+      common: flags.commonField,
+    }),
+    exportProperties: flags.properties ?? config.exportProperties,
+    columns: mergeColumns({}, flags),
+    preserveFormatting: flags.preserveFormatting ?? config.preserveFormatting,
+  };
+
+  for (const input of inputs) {
+    const output = flags.dryRun
+      ? undefined
+      : flags.inPlace
+      ? input
+      : flags.output ?? replaceExtension(input, '.replaced.graphml');
+
+    const { xml, replacements } = await replaceText(input, rules, options);
+    for (const { id, column, before, after } of replacements)
+      console.log(
+        `${input}: ${id} ${column}: ${JSON.stringify(
+          before
+        )} → ${JSON.stringify(after)}`
+      );
+
+    const unitCount = new Set(replacements.map(r => r.id)).size;
+    const matchCount = replacements.reduce((sum, r) => sum + r.count, 0);
+    if (output === undefined) {
+      console.log(`${matchCount} matches in ${unitCount} units of ${input}`);
+      continue;
+    }
+
+    await fs.writeFile(output, xml, 'utf-8');
+    console.log(
+      `Replaced ${matchCount} matches in ${unitCount} units of ${input} to ${output}`
+    );
+  }
+}
+
+async function runGenerate(input: string, flags: GenerateFlags) {
+  const output = flags.output ?? replaceExtension(input, '.graphml');
+  await generateGraphFile(input, output, { layout: flags.layout });
+  console.log(`Generated ${output} of ${input}`);
+}
+
+async function runInspect(file: string, flags: InspectFlags) {
+  const config = await loadConfig(flags.config);
+
+  const format = getFormatByFilename(file);
+  if (format !== undefined) {
+    const { units, metadata } = await getFormat(format).parse(
+      await fs.readFile(file),
+      config
+    );
+    if (flags.json) {
+      console.log(JSON.stringify({ metadata, units }, null, 2));
+      return;
+    }
+    console.log(
+      formatTable(Object.entries(metadata).map(([k, v]) => [k, stringify(v)]))
+    );
+    console.log(`\n${units.length} rows`);
+    return;
+  }
+
+  const { data } = await readFile(file);
+  const graph = await parseGraphmlFormat(data);
+  const units = getUnitsFromGraph(graph, config).map(
+    ({ data, ...unit }) => unit
+  );
+
+  if (flags.json) {
+    console.log(JSON.stringify(units, null, 2));
+    return;
+  }
+
+  const rows: Array<Record<string, string | null | undefined>> = units.map(
+    ({
+      fields,
+      labels,
+      properties,
+      translations,
+      originals,
+      row,
+      ...rest
+    }) => ({
+      ...rest,
+      ...labels,
+      ...properties,
+      ...fields,
+    })
+  );
+  const columns = [
+    'type',
+    'id',
+    'source',
+    'target',
+    'parent',
+    'unitType',
+    'label',
+    'closedLabel',
+    ...[...new Set(units.flatMap(u => Object.keys(u.labels ?? {})))].sort(
+      compareLabelColumns
+    ),
+    ...new Set(units.flatMap(u => Object.keys(u.properties ?? {}))),
+    ...new Set(units.flatMap(u => Object.keys(u.fields))),
+  ].filter(col => rows.some(row => col in row));
+
+  console.log(
+    formatTable([
+      columns,
+      ...rows.map(row => columns.map(col => row[col] ?? '')),
+    ])
+  );
+
+  const nodeCount = units.filter(u => u.type === 'node').length;
+  const edgeCount = units.filter(u => u.type === 'edge').length;
+  console.log(`\n${nodeCount} nodes, ${edgeCount} edges`);
+}
+
+/**
+ * Load options from a JSON or JS config file. JS files are loaded with
+ * `require` so they may also define a `postProcess` function.
+ *
+ * @param file - Path to the config file, nothing is loaded if undefined
+ * @returns Options object
+ */
+async function loadConfig(file?: string): Promise<ConfigFile> {
+  if (file === undefined) return {};
+
+  const filename = path.resolve(file);
+  debug(`Loading config file ${filename}`);
+
+  let config: unknown;
+  const ext = path.extname(filename).toLowerCase();
+  if (ext === '.js' || ext === '.cjs') {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const loaded = require(filename);
+    config = loaded?.default ?? loaded;
+  } else {
+    const contents = await fs.readFile(filename, 'utf-8');
+    try {
+      config = JSON.parse(contents);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      throw new Error(`Invalid JSON in config file ${file}: ${message}`);
+    }
+  }
+
+  if (typeof config !== 'object' || config === null || Array.isArray(config))
+    throw new Error(`Config file ${file} must contain an object`);
+
+  const unknownKeys = Object.keys(config).filter(k => !CONFIG_KEYS.includes(k));
+  if (unknownKeys.length > 0)
+    throw new Error(
+      `Unknown option(s) in config file ${file}: ${unknownKeys.join(', ')}`
+    );
+
+  return config;
+}
+
+function collectField(value: string, previous: ExtractFieldsUnit) {
+  const separator = value.indexOf('=');
+  const name = value.slice(0, separator).trim();
+  const propPath = value.slice(separator + 1);
+
+  if (separator < 1 || propPath === '')
+    throw new InvalidArgumentError(
+      "Expected format name=path, e.g. 'color=y:Fill/@color'"
+    );
+
+  // Comma separated object keys, e.g. `y:Fill,[0],$,color`
+  if (propPath.includes(',') && !/[/@]/.test(propPath))
+    return { ...previous, [name]: propPath.split(',') };
+
+  try {
+    parseFieldPath(propPath);
+  } catch (err) {
+    throw new InvalidArgumentError(
+      err instanceof Error ? err.message : String(err)
+    );
+  }
+  return { ...previous, [name]: propPath };
+}
+
+function collectValidation(value: string, previous: Record<string, string[]>) {
+  const separator = value.indexOf('=');
+  const values = parseList(value.slice(separator + 1));
+  if (separator < 1 || values.length === 0)
+    throw new InvalidArgumentError(
+      "Expected format column=values, e.g. 'borderType=line,dashed'"
+    );
+  return { ...previous, [value.slice(0, separator).trim()]: values };
+}
+
+/**
+ * Get the placeholder patterns of the flags: the `--placeholder` patterns or
+ * the defaults with `--placeholders`
+ */
+function getPlaceholders(flags: PlaceholderFlags) {
+  if (flags.placeholder && flags.placeholder.length > 0)
+    return flags.placeholder;
+  return flags.placeholders ? DEFAULT_PLACEHOLDERS : undefined;
+}
+
+function collectList(value: string, previous: string[]) {
+  return [...previous, value];
+}
+
+function parseList(value: string) {
+  return value
+    .split(',')
+    .map(v => v.trim())
+    .filter(v => v !== '');
+}
+
+function parseIssues(value: string) {
+  const issues = parseList(value);
+  const unknown = issues.filter(
+    issue => !IMPORT_ISSUES.includes(issue as ImportIssue)
+  );
+  if (unknown.length > 0)
+    throw new InvalidArgumentError(
+      `Unknown issue(s) ${unknown.join(', ')}, allowed: ${IMPORT_ISSUES.join(
+        ', '
+      )}`
+    );
+  return issues as ImportIssue[];
+}
+
+function mergeFields(
+  config: ExtractFields = {},
+  flags: Required<ExtractFields>
+): ExtractFields {
+  const result: ExtractFields = { ...config };
+
+  for (const type of ['node', 'edge', 'common'] as const) {
+    if (Object.keys(flags[type]).length > 0)
+      result[type] = { ...config[type], ...flags[type] };
+  }
+
+  return result;
+}
+
+function mergeColumns(
+  config: XlsxOptions = {},
+  flags: CommonFlags
+): XlsxOptions {
+  const result: XlsxOptions = { ...config };
+  if (flags.include) result.include = flags.include;
+  if (flags.exclude) result.exclude = flags.exclude;
+  return result;
+}
+
+function replaceExtension(filename: string, ext: string) {
+  const { dir, name } = path.parse(filename);
+  return path.join(dir, name + ext);
+}
+
+function stringify(value: unknown) {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function formatTable(rows: string[][]) {
+  const widths: number[] = [];
+  for (const row of rows)
+    row.forEach(
+      (cell, i) => (widths[i] = Math.max(widths[i] ?? 0, cell.length))
+    );
+
+  return rows
+    .map(row =>
+      row
+        .map((cell, i) => cell.padEnd(widths[i]))
+        .join('  ')
+        .trimEnd()
+    )
+    .join('\n');
+}
+
+if (require.main === module) {
+  main().then(exitCode => {
+    process.exitCode = exitCode;
+  });
+}
@@ -0,0 +1,179 @@
+import type { XMLField } from './types';
+
+// Attributes of the labels of new nodes and edges, the same as in yEd
+const LABEL_ATTRIBUTES = {
+  alignment: 'center',
+  fontFamily: 'Dialog',
+  fontSize: '12',
+  fontStyle: 'plain',
+  hasBackgroundColor: 'false',
+  hasLineColor: 'false',
+  textColor: '#000000',
+  visible: 'true',
+  'xml:space': 'preserve',
+};
+
+// Elements of the realizers which yEd writes before the labels
+const ELEMENTS_BEFORE_LABELS = [
+  '$',
+  'y:Geometry',
+  'y:Fill',
+  'y:BorderStyle',
+  'y:Path',
+  'y:LineStyle',
+  'y:Arrows',
+];
+
+/**
+ * Create a node element
+ *
+ * @param id - Id of the node
+ * @param dataKey - Id of the `nodegraphics` key
+ * @param [template] - Data element of a node to copy, by default a rectangle
+ *                     `y:ShapeNode` with one label
+ * @returns Node element
+ */
+export function createNodeElement(
+  id: string,
+  dataKey: string,
+  template?: XMLField
+): XMLField {
+  const data = template ? copyElement(template) : createShapeNode();
+  data.$ = { key: dataKey };
+  return { $: { id }, data: [data] };
+}
+
+/**
+ * Create an edge element
+ *
+ * @param id - Id of the edge
+ * @param source - Id of the source node
+ * @param target - Id of the target node
+ * @param dataKey - Id of the `edgegraphics` key
+ * @param [template] - Data element of an edge to copy, by default a
+ *                     `y:PolyLineEdge` with an arrow at the target
+ * @param [withLabel] - Add a label to the default edge
+ * @returns Edge element
+ */
+export function createEdgeElement(
+  id: string,
+  source: string,
+  target: string,
+  dataKey: string,
+  template?: XMLField,
+  withLabel = false
+): XMLField {
+  const data = template ? copyElement(template) : createPolyLineEdge(withLabel);
+  data.$ = { key: dataKey };
+  return { $: { id, source, target }, data: [data] };
+}
+
+function createShapeNode(): XMLField {
+  return {
+    'y:ShapeNode': [
+      {
+        'y:Geometry': [
+          { $: { height: '30.0', width: '80.0', x: '0.0', y: '0.0' } },
+        ],
+        'y:Fill': [{ $: { color: '#FFCC00', transparent: 'false' } }],
+        'y:BorderStyle': [
+          { $: { color: '#000000', type: 'line', width: '1.0' } },
+        ],
+        'y:NodeLabel': [createLabelElement('node')],
+        'y:Shape': [{ $: { type: 'rectangle' } }],
+      },
+    ],
+  };
+}
+
+function createPolyLineEdge(withLabel: boolean): XMLField {
+  return {
+    'y:PolyLineEdge': [
+      {
+        'y:Path': [{ $: { sx: '0.0', sy: '0.0', tx: '0.0', ty: '0.0' } }],
+        'y:LineStyle': [
+          { $: { color: '#000000', type: 'line', width: '1.0' } },
+        ],
+        'y:Arrows': [{ $: { source: 'none', target: 'standard' } }],
+        ...(withLabel ? { 'y:EdgeLabel': [createLabelElement('edge')] } : {}),
+        'y:BendStyle': [{ $: { smoothed: 'false' } }],
+      },
+    ],
+  };
+}
+
+/**
+ * Add label elements to a node or edge until it has `count` labels. The added
+ * labels are empty copies of the last label, or labels like those of new
+ * nodes and edges, and are placed where yEd writes the labels.
+ *
+ * @param realizer - Realizer element of the node or edge, e.g. `y:ShapeNode`,
+ *                   modified in place
+ * @param type - node or edge
+ * @param count - Number of labels
+ */
+export function addLabelElements(
+  realizer: XMLField,
+  type: 'node' | 'edge',
+  count: number
+) {
+  const name = type === 'node' ? 'y:NodeLabel' : 'y:EdgeLabel';
+  const existing = realizer[name];
+  const labels = Array.isArray(existing) ? existing : [];
+  if (labels.length >= count) return;
+
+  while (labels.length < count) {
+    const last = labels[labels.length - 1];
+    labels.push(
+      typeof last === 'object'
+        ? { ...copyElement(last), _: '' }
+        : createLabelElement(type)
+    );
+  }
+  if (existing === labels) return;
+
+  // The order of the elements is kept, so the other elements are moved after
+  // the labels
+  const entries = Object.entries(realizer);
+  const position = entries.reduce(
+    (after, [key], i) => (ELEMENTS_BEFORE_LABELS.includes(key) ? i + 1 : after),
+    0
+  );
+  for (const [key] of entries) delete realizer[key];
+  Object.assign(
+    realizer,
+    Object.fromEntries([
+      ...entries.slice(0, position),
+      [name, labels],
+      ...entries.slice(position),
+    ])
+  );
+}
+
+function createLabelElement(type: 'node' | 'edge'): XMLField {
+  return type === 'node'
+    ? {
+        _: '',
+        $: {
+          ...LABEL_ATTRIBUTES,
+          autoSizePolicy: 'content',
+          modelName: 'internal',
+          modelPosition: 'c',
+        },
+      }
+    : {
+        _: '',
+        $: {
+          ...LABEL_ATTRIBUTES,
+          distance: '2.0',
+          modelName: 'centered',
+          modelPosition: 'center',
+          preferredPlacement: 'anywhere',
+          ratio: '0.5',
+        },
+      };
+}
+
+function copyElement(element: XMLField): XMLField {
+  return JSON.parse(JSON.stringify(element));
+}
@@ -0,0 +1,168 @@
+import Debug from 'debug';
+const debug = Debug('yedxtract:csv');
+
+import { parseMetadata, serializeMetadata } from './metadata';
+import { deduplicateUnits, expandRows } from './dedupe';
+import { getTableRows, rowsToUnits } from './table';
+
+import type {
+  ImportOptions,
+  Metadata,
+  OutputUnit,
+  TableRow,
+  XlsxOptions,
+} from './types';
+
+// Metadata rows are written before the header with the name prefixed with this
+const METADATA_PREFIX = '#';
+// Like in xlsx files, empty cells are skipped on import and #NULL! sets an
+// empty value. Null values are exported as empty cells.
+const NULL_VALUE = '#NULL!';
+
+/**
+ * Create a UTF-8 CSV file. Metadata is written to rows before the header row,
+ * e.g. `#yedHash,<hash>`, so that it is kept when the file is edited with a
+ * spreadsheet application.
+ *
+ * @param units - Units exported from the graph
+ * @param metadata - Metadata of the export
+ * @param [options] - Columns to include or exclude
+ * @returns CSV file as a string
+ */
+export function createCsv(
+  units: OutputUnit[],
+  metadata: Metadata,
+  options: XlsxOptions = {}
+) {
+  debug(`Creating CSV file (${units.length} rows)`);
+
+  const { rows, columns } = metadata.deduplicated
+    ? deduplicateUnits(units, metadata, options)
+    : getTableRows(units, metadata, options);
+
+  const lines = [
+    ...Object.entries(serializeMetadata(metadata)).map(([name, value]) => [
+      METADATA_PREFIX + name,
+      value,
+    ]),
+    columns,
+    ...rows.map(row => columns.map(column => formatValue(row[column]))),
+  ];
+
+  return lines.map(line => line.map(quote).join(',') + '\r\n').join('');
+}
+
+/**
+ * Import a CSV file created with `createCsv`
+ *
+ * @param csv - CSV file contents
+ * @param [options] - Options object to define imported fields
+ * @returns List of values for nodes and edges and the metadata
+ */
+export function importCsv(csv: string, options: ImportOptions = {}) {
+  debug('Importing CSV file');
+  const records = parseCsvLines(csv);
+
+  const metadataValues: Record<string, string> = {};
+  let headerIndex = 0;
+  while (records[headerIndex]?.values[0]?.startsWith(METADATA_PREFIX)) {
+    const [name, value] = records[headerIndex].values;
+    metadataValues[name.slice(METADATA_PREFIX.length)] = value ?? '';
+    headerIndex++;
+  }
+
+  const metadata = parseMetadata(metadataValues);
+  if (metadata === undefined)
+    throw new Error('Metadata rows missing from the CSV file');
+
+  const header = records[headerIndex]?.values;
+  if (header === undefined)
+    throw new Error('Header row missing from the CSV file');
+
+  const rowRecords = records.slice(headerIndex + 1);
+  const rows = rowRecords.map(({ values }) => {
+    const row: TableRow = {};
+    header.forEach((column, i) => {
+      const value = values[i];
+      if (value === undefined || value === '') return;
+      row[column] = value === NULL_VALUE ? null : value;
+    });
+    return row;
+  });
+
+  // Rows of deduplicated files are expanded to several units
+  const lines = rowRecords.map(({ line }) => line);
+  const units = metadata.deduplicated
+    ? rowsToUnits(expandRows(rows, lines), metadata, options)
+    : rowsToUnits(rows, metadata, options, lines);
+  return { units, metadata };
+}
+
+function formatValue(value: TableRow[string]) {
+  if (value == null) return '';
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+function quote(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Parse CSV records (RFC 4180), empty lines are skipped
+ */
+export function parseCsv(csv: string) {
+  return parseCsvLines(csv).map(({ values }) => values);
+}
+
+/**
+ * Parse CSV records with the line where each record starts, the first line is
+ * 1. Quoted values may span several lines.
+ */
+function parseCsvLines(csv: string) {
+  const records: Array<{ values: string[]; line: number }> = [];
+  let record: string[] = [];
+  let value = '';
+  let quoted = false;
+  let line = 1;
+  let start = line;
+
+  const text = csv.replace(/^\uFEFF/, '');
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') quoted = false;
+      else {
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+        value += char;
+      }
+      continue;
+    }
+
+    if (char === '"') quoted = true;
+    else if (char === ',') {
+      record.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(value);
+      if (record.length > 1 || record[0] !== '')
+        records.push({ values: record, line: start });
+      record = [];
+      value = '';
+      start = ++line;
+    } else value += char;
+  }
+
+  if (quoted) throw new Error('Invalid CSV file, unterminated quoted value');
+
+  record.push(value);
+  if (record.length > 1 || record[0] !== '')
+    records.push({ values: record, line: start });
+
+  return records;
+}
@@ -0,0 +1,96 @@
+import { promises as fs } from 'fs';
+import { read, write, utils } from 'xlsx';
+
+import { exportExcel, importExcel, replaceTextFile } from '.';
+import { parseGraphmlFormat, getUnitsFromGraph } from './graphml';
+import { expandRows } from './dedupe';
+
+const DATA_DIR = __dirname + '/../data';
+const ORIGINAL_GRAPH = DATA_DIR + '/simple.graphml';
+const OUTPUT_GRAPH = DATA_DIR + '/output.dedupe.graphml';
+const OUTPUT_XLSX = DATA_DIR + '/output.dedupe.xlsx';
+const OUTPUT_MEMORY = DATA_DIR + '/output.memory.json';
+
+describe('dedupe.ts', () => {
+  test('rows are expanded to a row per id', () => {
+    expect(
+      expandRows(
+        [
+          {
+            ids: 'node:start, edge:end/label_2, n0::e1',
+            count: 3,
+            text: 'Order',
+            text_fi: 'Tilaus',
+          },
+        ],
+        [2]
+      )
+    ).toEqual([
+      { id: 'start', type: 'node', label: 'Order', label_fi: 'Tilaus' },
+      { id: 'end', type: 'edge', label_2: 'Order', label_2_fi: 'Tilaus' },
+      { id: 'n0::e1', type: 'edge', label: 'Order', label_fi: 'Tilaus' },
+    ]);
+    // Empty rows are not read, so the rows of the file are passed
+    expect(() => expandRows([{ text: 'Order' }], [4])).toThrow(
+      'Ids missing on row 4'
+    );
+    expect(() => expandRows([{ ids: 'mid', text: 'Order' }], [2])).toThrow(
+      'Type missing from id mid on row 2'
+    );
+  });
+
+  test('translate repeated labels once and reuse the translation memory', async () => {
+    await replaceTextFile(ORIGINAL_GRAPH, OUTPUT_GRAPH, [
+      { find: 'Too bad', replace: "That's nice!" },
+    ]);
+    await fs.rm(OUTPUT_MEMORY, { force: true });
+
+    const wb = read(
+      await exportExcel(OUTPUT_GRAPH, { deduplicate: true, languages: ['fi'] })
+    );
+    const rows: Record<string, string | number>[] = utils.sheet_to_json(
+      wb.Sheets['Content']
+    );
+    expect(rows).toHaveLength(8);
+    expect(rows[3]).toEqual({
+      ids: 'node:n3, node:n4',
+      count: 2,
+      text: "That's nice!",
+    });
+
+    rows[3].text_fi = 'Kiva!';
+    wb.Sheets['Content'] = utils.json_to_sheet(rows);
+    await fs.writeFile(OUTPUT_XLSX, write(wb, { type: 'buffer' }));
+
+    const { xml, report } = await importExcel(OUTPUT_GRAPH, OUTPUT_XLSX, {
+      language: 'fi',
+      translationMemory: OUTPUT_MEMORY,
+    });
+    expect(report.updated).toBe(2);
+    const units = getUnitsFromGraph(await parseGraphmlFormat(xml));
+    expect(units.filter(u => u.label === 'Kiva!').map(u => u.id)).toEqual([
+      'n3',
+      'n4',
+    ]);
+
+    const memory = JSON.parse(await fs.readFile(OUTPUT_MEMORY, 'utf-8'));
+    expect(memory).toEqual({ fi: { "That's nice!": 'Kiva!' } });
+
+    // A new export of the original graph is prefilled from the memory
+    const prefilled: Record<string, string>[] = utils.sheet_to_json(
+      read(
+        await exportExcel(ORIGINAL_GRAPH, {
+          languages: ['fi'],
+          translationMemory: OUTPUT_MEMORY,
+        })
+      ).Sheets['Content']
+    );
+    expect(prefilled.map(row => row.label_fi ?? null).slice(0, 5)).toEqual([
+      null,
+      null,
+      null,
+      'Kiva!',
+      null,
+    ]);
+  });
+});
@@ -0,0 +1,167 @@
+import Debug from 'debug';
+const debug = Debug('yedxtract:dedupe');
+
+import {
+  parseLabelColumn,
+  parseTranslationUnitId,
+  translationColumn,
+  translationUnitId,
+} from './labels';
+import { unitsToRows } from './table';
+
+import type { Metadata, OutputUnit, TableRow, XlsxOptions } from './types';
+
+// Columns of a deduplicated table: the labels containing the text, the number
+// of labels, the text and its translations, e.g. `text_fi`
+const IDS_COLUMN = 'ids';
+const COUNT_COLUMN = 'count';
+const TEXT_COLUMN = 'text';
+const IDS_SEPARATOR = ', ';
+// Ids of the labels are prefixed with the type of the unit, e.g. `node:n0`
+const TYPE_SEPARATOR = ':';
+
+/**
+ * Collapse identical labels to one row. Each row lists the labels containing
+ * the text with the same ids as in the translation files prefixed with the
+ * type, e.g. `node:n0` or `edge:e0/label_2`. Only the labels and their
+ * translations are exported, empty labels are skipped.
+ *
+ * @param units - Units exported from the graph
+ * @param metadata - Metadata of the export, defines the languages
+ * @param [options] - Columns to include or exclude
+ * @returns Table rows and columns
+ */
+export function deduplicateUnits(
+  units: OutputUnit[],
+  metadata: Metadata,
+  options: XlsxOptions = {}
+) {
+  const languages = metadata.languages ?? [];
+  const rowsByText = new Map<string, TableRow>();
+
+  for (const row of unitsToRows(units, options)) {
+    for (const [column, text] of Object.entries(row)) {
+      if (parseLabelColumn(column) === undefined) continue;
+      if (typeof text !== 'string' || text === '') continue;
+
+      const unitId =
+        String(row.type) +
+        TYPE_SEPARATOR +
+        translationUnitId(String(row.id), column);
+      const existing = rowsByText.get(text);
+      const textRow = existing ?? { [IDS_COLUMN]: '', [TEXT_COLUMN]: text };
+      textRow[IDS_COLUMN] = existing
+        ? `${existing[IDS_COLUMN]}${IDS_SEPARATOR}${unitId}`
+        : unitId;
+      textRow[COUNT_COLUMN] = Number(existing?.[COUNT_COLUMN] ?? 0) + 1;
+
+      // Use the first available translation, e.g. from a translation memory
+      for (const language of languages) {
+        const textColumn = translationColumn(TEXT_COLUMN, language);
+        const translation = row[translationColumn(column, language)];
+        if (textRow[textColumn] == null && translation != null)
+          textRow[textColumn] = translation;
+      }
+
+      rowsByText.set(text, textRow);
+    }
+  }
+
+  const columns = [
+    IDS_COLUMN,
+    COUNT_COLUMN,
+    TEXT_COLUMN,
+    ...languages.map(language => translationColumn(TEXT_COLUMN, language)),
+  ];
+  const rows = [...rowsByText.values()].map(row =>
+    Object.fromEntries(columns.map(column => [column, row[column]]))
+  );
+
+  debug(`Deduplicated ${units.length} units to ${rows.length} texts`);
+  return { rows, columns };
+}
+
+/**
+ * Expand the rows of a deduplicated table to a row per node and edge
+ *
+ * @param rows - Rows created with `deduplicateUnits`
+ * @param rowNumbers - Rows of the imported file for the error messages
+ * @returns Rows with the text and translations in the label columns
+ */
+export function expandRows(rows: TableRow[], rowNumbers: number[]) {
+  const rowsById = new Map<string, TableRow>();
+
+  rows.forEach((row, i) => {
+    const ids = row[IDS_COLUMN];
+    if (typeof ids !== 'string' || ids.trim() === '')
+      throw new Error(`Ids missing on row ${rowNumbers[i]}`);
+
+    for (const unitId of ids.split(',').map(id => id.trim())) {
+      if (unitId === '') continue;
+      const { type, labelId } = parseTypedId(unitId);
+      if (type === undefined)
+        throw new Error(
+          `Type missing from id ${unitId} on row ${
+            i + 2
+          }, expected e.g. node:${unitId}`
+        );
+      const { id, column } = parseTranslationUnitId(labelId);
+      const expanded = rowsById.get(id) ?? { id, type };
+
+      for (const [valueColumn, value] of Object.entries(row)) {
+        const language = parseTextColumn(valueColumn);
+        if (language === undefined) continue;
+        expanded[
+          language === '' ? column : translationColumn(column, language)
+        ] = value;
+      }
+
+      rowsById.set(id, expanded);
+    }
+  });
+
+  return [...rowsById.values()];
+}
+
+/**
+ * Parse a label id of a deduplicated table. Files exported before the ids
+ * were prefixed with the type have ids like `n0` and `e0/label_2`, the type
+ * of those is deduced from the first letter.
+ *
+ * @param unitId - Label id, e.g. `node:n0/label_2`
+ * @returns Type of the unit and the label id without the type
+ */
+function parseTypedId(unitId: string) {
+  const separator = unitId.indexOf(TYPE_SEPARATOR);
+  const prefix = unitId.slice(0, separator);
+  if (separator > 0 && (prefix === 'node' || prefix === 'edge'))
+    return { type: prefix, labelId: unitId.slice(separator + 1) };
+
+  const localId = unitId.split('::').pop() ?? unitId;
+  const type =
+    localId[0] === 'n' ? 'node' : localId[0] === 'e' ? 'edge' : undefined;
+  return { type, labelId: unitId };
+}
+
+/**
+ * Check whether the column contains a text or its translation in a
+ * deduplicated table
+ *
+ * @param column - Column name
+ * @returns True for `text` and e.g. `text_fi`
+ */
+export function isTextColumn(column: string) {
+  return parseTextColumn(column) !== undefined;
+}
+
+/**
+ * Parse a text column name
+ *
+ * @returns Language of a translation column, an empty string for the text
+ *          column and undefined for other columns
+ */
+function parseTextColumn(column: string) {
+  if (column === TEXT_COLUMN) return '';
+  const prefix = translationColumn(TEXT_COLUMN, '');
+  return column.startsWith(prefix) ? column.slice(prefix.length) : undefined;
+}
@@ -0,0 +1,134 @@
+import { formatImportReport } from './report';
+
+import type {
+  DiffFormat,
+  ImportDiff,
+  ImportReport,
+  OutputUnit,
+  UnitDiff,
+} from './types';
+
+/**
+ * List the changes of each imported unit
+ *
+ * @param units - Imported units
+ * @param report - Report of updating the graph with the units
+ * @returns Changes of each unit in the order of the import
+ */
+export function createImportDiff(
+  units: OutputUnit[],
+  report: ImportReport
+): ImportDiff {
+  const unitDiffs = units.map(({ id, type }): UnitDiff => {
+    const changes = report.changes
+      .filter(change => change.id === id)
+      .map(({ column, before, after }) => ({ column, before, after }));
+
+    const status = report.unknownIds.includes(id)
+      ? 'unknown'
+      : report.created.includes(id)
+      ? 'created'
+      : changes.length > 0
+      ? 'changed'
+      : 'unchanged';
+
+    return { id, type, status, changes };
+  });
+
+  const deletedDiffs = report.deleted.map(
+    ({ id, type }): UnitDiff => ({ id, type, status: 'deleted', changes: [] })
+  );
+
+  return { units: [...unitDiffs, ...deletedDiffs], report };
+}
+
+/**
+ * Format the changes of a dry run for reviewing
+ *
+ * @param diff - Result of `diffExcel`
+ * @param [format] - `text` (default), `json` or `html`
+ * @returns Formatted diff
+ */
+export function formatImportDiff(
+  diff: ImportDiff,
+  format: DiffFormat = 'text'
+) {
+  switch (format) {
+    case 'text':
+      return formatText(diff);
+    case 'json':
+      return JSON.stringify(diff, null, 2) + '\n';
+    case 'html':
+      return formatHtml(diff);
+    default:
+      throw new Error(`Unknown diff format ${format}`);
+  }
+}
+
+function formatText(diff: ImportDiff) {
+  const lines: string[] = [];
+
+  for (const { id, type, status, changes } of diff.units) {
+    lines.push(`${id} (${type}): ${status}`);
+    for (const { column, before, after } of changes)
+      lines.push(`  ${column}: ${quote(before)} → ${quote(after)}`);
+  }
+
+  lines.push('', formatImportReport(diff.report));
+  return lines.join('\n') + '\n';
+}
+
+function formatHtml(diff: ImportDiff) {
+  const rows = diff.units.flatMap(({ id, type, status, changes }) => {
+    const unit = `<td>${escapeHtml(id)}</td><td>${type}</td><td>${status}</td>`;
+    if (changes.length === 0)
+      return [`<tr class="${status}">${unit}<td></td><td></td><td></td></tr>`];
+
+    return changes.map(
+      ({ column, before, after }) =>
+        `<tr class="${status}">${unit}<td>${escapeHtml(column)}</td>` +
+        `<td class="before">${escapeHtml(before ?? '')}</td>` +
+        `<td class="after">${escapeHtml(after ?? '')}</td></tr>`
+    );
+  });
+
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<title>yedxtract import diff</title>',
+    '<style>',
+    'table { border-collapse: collapse; }',
+    'th, td { border: 1px solid #ccc; padding: 2px 6px; white-space: pre-wrap; }',
+    '.unchanged { color: #999; }',
+    '.unknown { background: #fee; }',
+    '.created { background: #efe; }',
+    '.deleted { text-decoration: line-through; }',
+    '.before { background: #fdd; }',
+    '.after { background: #dfd; }',
+    '</style>',
+    '</head>',
+    '<body>',
+    `<pre>${escapeHtml(formatImportReport(diff.report))}</pre>`,
+    '<table>',
+    '<tr><th>id</th><th>type</th><th>status</th><th>column</th><th>before</th><th>after</th></tr>',
+    ...rows,
+    '</table>',
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+function quote(value: string | null) {
+  return value === null ? '(empty)' : JSON.stringify(value);
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
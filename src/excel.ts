@@ -2,77 +2,92 @@ import { read, write, utils } from 'xlsx';
 import Debug from 'debug';
 const debug = Debug('yedxtract:excel');
 
-import { ImportOptions, Metadata, OutputUnit, XlsxOptions } from './types';
-import { LIB_VERSION } from './version';
+import {
+  ColumnFormat,
+  ImportOptions,
+  Metadata,
+  OutputUnit,
+  TableRow,
+  WorkbookOptions,
+  XlsxOptions,
+} from './types';
+import { parseMetadata, serializeMetadata } from './metadata';
+import { parseLabelColumn, parseTranslationColumn } from './labels';
+import { deduplicateUnits, expandRows, isTextColumn } from './dedupe';
+import { getTableRows, parseOriginalColumn, rowsToUnits } from './table';
+import { SOURCE_HASH_COLUMN, TRACKING_COLUMNS } from './changes';
+import { addOriginals } from './merge';
+import { PLACEHOLDERS_COLUMN } from './placeholders';
+import { getStyleValueLists } from './styles';
+import { formatContentSheet } from './workbook';
 
-type ExcelCellValue = string | number | boolean | Date | null | undefined;
-type ExcelRow = Record<string, ExcelCellValue>;
 type ExcelColumn = [string, number];
 
+// Column sizes, other than label columns use the default width
+const DEFAULT_COLUMN_WIDTH = 10;
+const LABEL_COLUMN_WIDTH = 30;
+const COLUMN_WIDTHS: Record<string, number> = {
+  type: 6,
+  id: 6,
+  source: 6,
+  target: 6,
+  parent: 6,
+  unitType: 15,
+  label: LABEL_COLUMN_WIDTH,
+  closedLabel: LABEL_COLUMN_WIDTH,
+  // Graphml file of the row in combined batch workbooks
+  file: 20,
+  // Labels of a deduplicated text
+  ids: 15,
+  count: 6,
+};
+
+// Columns which are not imported or identify the unit, locked in protected
+// sheets
+const READ_ONLY_COLUMNS = [
+  'type',
+  'id',
+  'source',
+  'target',
+  'parent',
+  'unitType',
+  'file',
+  'ids',
+  'count',
+  PLACEHOLDERS_COLUMN,
+  ...TRACKING_COLUMNS,
+];
+
+/**
+ * Create an xlsx file with the Content and Metadata sheets
+ *
+ * @param units - Units exported from the graph
+ * @param metadata - Metadata of the export
+ * @param [options] - Columns to include or exclude
+ * @param [workbook] - Editing aids of the Content sheet. Protected sheets have
+ *                     the original labels in hidden columns.
+ * @returns Xlsx file
+ */
 export function createXlsx(
   units: OutputUnit[],
   metadata: Metadata,
-  options: XlsxOptions = {}
+  options: XlsxOptions = {},
+  workbook: WorkbookOptions = {}
 ) {
   debug(`Creating Excel file (${units.length} rows)`);
 
-  const rows: ExcelRow[] = units.map(unit => {
-    const { fields, data, ...rest } = unit;
-    const allFields: Record<string, string | null> = {
-      ...fields,
-      ...rest,
-    };
-
-    const allProperties = Object.keys(allFields);
-    const includedProperties = filterProperties(allProperties, options);
-
-    return Object.fromEntries(
-      includedProperties.map(prop => [prop, allFields[prop]])
-    );
-  });
-
-  // Default columns and their sizes in order
-  const DEFAULT_COLUMN_WIDTH = 10;
-  const DEFAULT_COLUMNS: ExcelColumn[] = [
-    ['type', 6],
-    ['id', 6],
-    ['source', 6],
-    ['target', 6],
-    ['unitType', 15],
-    ['label', 30],
-  ];
-
-  // Get all columns present in data
-  const columnsPresent = getAllColumnNames(rows);
-
-  const defaultColumnsPresent = DEFAULT_COLUMNS.filter(c =>
-    columnsPresent.includes(c[0])
-  );
-
-  const otherColumnsPresent = columnsPresent
-    .filter(c => DEFAULT_COLUMNS.every(dc => dc[0] !== c))
-    .map(c => [c, DEFAULT_COLUMN_WIDTH] as ExcelColumn);
-
-  const columnsWithWidths = [...defaultColumnsPresent, ...otherColumnsPresent];
-  const header = columnsWithWidths.map(c => c[0]);
+  const withOriginals =
+    workbook.protect && !units.some(unit => unit.originals)
+      ? addOriginals(units, true)
+      : units;
+  const { rows, columns } = metadata.deduplicated
+    ? deduplicateUnits(units, metadata, options)
+    : getTableRows(withOriginals, metadata, options);
+  const languages = metadata.languages ?? [];
+  const ws = createContentSheet(rows, columns, languages);
 
-  const ws = utils.json_to_sheet(rows, { header });
-
-  ws['!cols'] = columnsWithWidths.map(col => ({
-    // For some reason column width is 0.7 less when viewed from Excel
-    width: col[1] + 0.7,
-  }));
-
-  const wsMetadata = utils.aoa_to_sheet(
-    Object.entries({
-      // Use fixed version number for tests, otherwise would need to generate
-      // a new Excel file for every release to pass the test
-      yedxtractVersion: process.env.NODE_ENV !== 'test' ? LIB_VERSION : 'test',
-      yedFilename: metadata.yedFilename,
-      yedHash: metadata.yedHash,
-      extractedFields: JSON.stringify(metadata.extractedFields),
-    })
-  );
+  const metadataRows = serializeMetadata(metadata);
+  const wsMetadata = utils.aoa_to_sheet(Object.entries(metadataRows));
 
   wsMetadata['!cols'] = [15, 45].map(col => ({ width: col + 0.7 }));
 
@@ -87,8 +102,60 @@ export function createXlsx(
     compression: true,
   }) as Buffer;
 
-  return xlsxBuffer;
+  if (!workbook.protect && !workbook.validation) return xlsxBuffer;
+
+  const lists: Record<string, string[]> = {
+    ...(workbook.protect && getStyleValueLists(metadata.extractedFields)),
+    ...workbook.validation,
+  };
+  return formatContentSheet(
+    xlsxBuffer,
+    columns.map((column): [string, ColumnFormat] => [
+      column,
+      {
+        editable:
+          !READ_ONLY_COLUMNS.includes(column) &&
+          parseOriginalColumn(column) === undefined,
+        wrap: isLabelTextColumn(column, languages),
+        list: lists[column],
+      },
+    ]),
+    Boolean(workbook.protect)
+  );
 }
+
+/**
+ * Create a worksheet of the table rows with the column widths
+ *
+ * @param rows - Table rows
+ * @param columns - Columns in the output order
+ * @param languages - Languages of the translation columns
+ * @returns Worksheet
+ */
+export function createContentSheet(
+  rows: TableRow[],
+  columns: string[],
+  languages: string[]
+) {
+  const columnsWithWidths = columns.map(
+    (column): ExcelColumn => [column, getColumnWidth(column, languages)]
+  );
+  const header = columnsWithWidths.map(c => c[0]);
+
+  const ws = utils.json_to_sheet(rows, { header });
+
+  ws['!cols'] = columnsWithWidths.map(col => ({
+    // For some reason column width is 0.7 less when viewed from Excel
+    width: col[1] + 0.7,
+    // Original values are needed only for merging the import and the source
+    // hashes for comparing the next export
+    ...((parseOriginalColumn(col[0]) !== undefined ||
+      col[0] === SOURCE_HASH_COLUMN) && { hidden: true }),
+  }));
+
+  return ws;
+}
+
 /**
  * Import file Excel to update yEd values. Note that empty cells are skipped. If
  * you want to set empty string to a node or edge, set corresponding Excel cell
@@ -108,13 +175,10 @@ export function importXlsx(xlsx: Buffer, options?: ImportOptions) {
     debug('"Metadata"-sheet not present');
     throw new Error('"Metadata"-sheet not present');
   }
-  const metadata = Object.fromEntries(
-    utils.sheet_to_json(wsMetadata, { header: 1 })
+  const metadata = parseMetadata(
+    Object.fromEntries(utils.sheet_to_json(wsMetadata, { header: 1 }))
   );
-
-  metadata.extractedFields = JSON.parse(metadata.extractedFields);
-
-  if (!instanceOfMetadata(metadata)) throw new Error('Invalid metadata sheet');
+  if (metadata === undefined) throw new Error('Invalid metadata sheet');
 
   const worksheet = workbook.Sheets['Content'];
   if (worksheet === undefined) {
@@ -122,113 +186,43 @@ export function importXlsx(xlsx: Buffer, options?: ImportOptions) {
     throw new Error('"Graphml"-sheet not present');
   }
 
-  const rows: ExcelRow[] = utils.sheet_to_json(worksheet);
-
-  // Get all columns present in data
-  const columnsPresent = getAllColumnNames(rows);
-  const includedColumns = filterProperties(
-    columnsPresent,
-    options?.fieldsToImport ?? {}
-  );
-
-  // Convert to IOutputUnit
-  let units = rows.map(row => {
-    // Filter out columns not in `includedColumns`
-    const filteredCols = Object.fromEntries(
-      Object.entries(row).filter(([key]) => includedColumns.includes(key))
-    );
-
-    const { id, type, source, target, validated } = validateRow(filteredCols);
-    const { unitType, label, ...fields } = validated;
-
-    const unit: OutputUnit = {
-      id,
-      type,
-      source,
-      target,
-      unitType,
-      label,
-      fields,
-    };
-
-    removeUndefined(unit);
-
-    return unit;
-  });
-
-  const { postProcess } = options;
-  if (typeof postProcess === 'function') {
-    debug('Postprocessing excel units');
-    units = units.reduce<OutputUnit[]>((acc, unit) => {
-      const postProcessedUnit = postProcess(unit);
-      if (postProcessedUnit != null) acc.push(postProcessedUnit);
-      return acc;
-    }, []);
-  }
+  const rows: TableRow[] = utils.sheet_to_json(worksheet);
+  // Rows of deduplicated sheets are expanded to several units
+  const rowNumbers = getSheetRows(rows);
+  const units = metadata.deduplicated
+    ? rowsToUnits(expandRows(rows, rowNumbers), metadata, options)
+    : rowsToUnits(rows, metadata, options, rowNumbers);
 
   return { units, metadata };
 }
 
-function filterProperties(properties: string[], options: XlsxOptions = {}) {
-  return options.include
-    ? properties.filter(f => options.include?.includes(f))
-    : options.exclude
-    ? properties.filter(f => !options.exclude?.includes(f))
-    : properties;
-}
-
-function getAllColumnNames(rows: ExcelRow[]) {
-  return [...new Set(rows.map(row => Object.keys(row)).flat())];
-}
-
-function validateRow(row: ExcelRow) {
-  const { id, type, source, target, ...rest } = row;
-
-  if (typeof id !== 'string') throw new Error('Mandatory id column is missing');
-
-  if (type !== 'node' && type !== 'edge' && id[0] !== 'n' && id[0] !== 'e')
-    throw new Error(
-      'Type column is missing and not possible to deduce type from id'
-    );
-  const deducedType: 'node' | 'edge' =
-    type === 'node' || id[0] === 'n' ? 'node' : 'edge';
-
-  if (typeof source !== 'string' && source !== undefined)
-    throw new Error('Invalid source column type, must be string or undefined');
-
-  if (typeof target !== 'string' && target !== undefined)
-    throw new Error('Invalid target column type, must be string or undefined');
-
-  const validated: Record<string, string | null> = {};
-
-  for (const field in rest) {
-    const val = rest[field];
-    if (typeof val !== 'string' && val !== null)
-      throw new Error(`Invalid type in ${field} column`);
-    validated[field] = val;
-  }
-
-  return {
-    id,
-    type: deducedType,
-    source,
-    target,
-    validated,
-  };
+/**
+ * Get the row numbers of rows read with `sheet_to_json`, which skips empty
+ * rows. The header is row 1.
+ *
+ * @param rows - Rows of a sheet
+ * @returns Row numbers of the sheet
+ */
+export function getSheetRows(rows: object[]) {
+  // SheetJS stores the 0-based row index as a non-enumerable property
+  return rows.map(row => (row as { __rowNum__: number }).__rowNum__ + 1);
 }
 
-function removeUndefined(obj: OutputUnit) {
-  const keys = Object.keys(obj) as Array<keyof typeof obj>;
-  keys.forEach(key => obj[key] === undefined && delete obj[key]);
+function getColumnWidth(column: string, languages: string[]) {
+  if (column in COLUMN_WIDTHS) return COLUMN_WIDTHS[column];
+  if (isLabelTextColumn(column, languages)) return LABEL_COLUMN_WIDTH;
+  return DEFAULT_COLUMN_WIDTH;
 }
 
-function instanceOfMetadata(obj: unknown): obj is Metadata {
-  if (typeof obj !== 'object' || obj === null) return false;
-  // obj is now type object
+/**
+ * Check whether the column contains labels, their translations or the
+ * previous labels. These columns are wide and wrapped.
+ */
+function isLabelTextColumn(column: string, languages: string[]) {
   return (
-    'yedxtractVersion' in obj &&
-    'yedFilename' in obj &&
-    'yedHash' in obj &&
-    'extractedFields' in obj
+    parseLabelColumn(column) !== undefined ||
+    parseTranslationColumn(column, languages) !== undefined ||
+    isTextColumn(column) ||
+    column === 'previousLabel'
   );
 }
@@ -0,0 +1,67 @@
+import { getUnitLabels } from './labels';
+
+import type { ExportFilter, OutputUnit } from './types';
+
+const UNIT_TYPES = ['node', 'edge'];
+
+/**
+ * Verify the values of an export filter, e.g. from a config file
+ *
+ * @param filter - Export filter
+ */
+export function validateExportFilter(filter: ExportFilter) {
+  for (const type of filter.types ?? [])
+    if (!UNIT_TYPES.includes(type))
+      throw new Error(
+        `Invalid type ${type} in the export filter, expected ${UNIT_TYPES.join(
+          ' or '
+        )}`
+      );
+
+  for (const key of ['unitTypes', 'configurations', 'ids'] as const) {
+    const values = filter[key];
+    if (values !== undefined && !Array.isArray(values))
+      throw new Error(`Expected an array of ${key} in the export filter`);
+  }
+}
+
+/**
+ * Check whether a node or edge matches the export filter
+ *
+ * @param unit - Node or edge extracted from the graph
+ * @param configuration - `configuration` attribute of the realizer element
+ * @param filter - Export filter
+ * @returns True if the unit is exported
+ */
+export function matchesExportFilter(
+  unit: OutputUnit,
+  configuration: string | undefined,
+  filter: ExportFilter
+) {
+  const { types, unitTypes, configurations, withLabels, ids } = filter;
+
+  if (types && !types.some(type => type === unit.type)) return false;
+  if (unitTypes && !unitTypes.includes(unit.unitType ?? '')) return false;
+  if (ids && !ids.includes(unit.id)) return false;
+
+  if (
+    configurations &&
+    !configurations.some(pattern =>
+      wildcardToRegExp(pattern).test(configuration ?? '')
+    )
+  )
+    return false;
+
+  if (withLabels && !Object.values(getUnitLabels(unit)).some(label => label))
+    return false;
+
+  return true;
+}
+
+function wildcardToRegExp(pattern: string) {
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,12 @@
+import { estimateLabelSize } from './fit';
+
+describe('fit.ts', () => {
+  test('only tags of HTML labels are left out of the size', () => {
+    const plain = estimateLabelSize('Items');
+    expect(estimateLabelSize('<html><b>Items</b></html>')).toEqual(plain);
+    expect(estimateLabelSize('Items {1}').width).toBeGreaterThan(plain.width);
+    expect(estimateLabelSize('Items\n{count}').height).toBeGreaterThan(
+      plain.height
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import { isHtmlLabel, toEditableLabel } from './html';
+
+import type { TextSize, XMLField } from './types';
+
+// Character widths relative to the font size, approximating the Dialog font
+// used by yEd. Bold text is about 10% wider.
+const CHAR_WIDTHS: Array<[RegExp, number]> = [
+  [/[iIjl.,:;'!|]/, 0.28],
+  [/[ ()[\]{}frt]/, 0.34],
+  [/[mwMW@%]/, 0.86],
+  [/[A-Z]/, 0.68],
+];
+const DEFAULT_CHAR_WIDTH = 0.56;
+const MONOSPACED_CHAR_WIDTH = 0.6;
+const BOLD_FACTOR = 1.1;
+const LINE_HEIGHT = 1.1777;
+const DEFAULT_FONT_SIZE = 12;
+// Space between the text and the edges of the label
+const LABEL_INSETS = 4;
+
+// Space kept between a label and the border of its node
+export const NODE_PADDING = 2;
+
+/**
+ * Estimate the size of a label from its font. Tags of HTML labels are not
+ * measured and `<br>` starts a new line.
+ *
+ * @param text - Label text
+ * @param attributes - Attributes of the label element: `fontFamily`,
+ *                     `fontSize` and `fontStyle`
+ * @returns Width and height of the label including the insets
+ */
+export function estimateLabelSize(
+  text: string,
+  attributes: XMLField = {}
+): TextSize {
+  const fontSize = Number(attributes.fontSize) || DEFAULT_FONT_SIZE;
+  const family = String(attributes.fontFamily ?? '').toLowerCase();
+  const bold = String(attributes.fontStyle ?? '').includes('bold');
+
+  // Tags of HTML labels are edited as placeholders like {1}, other labels may
+  // contain braces as text
+  const editable = isHtmlLabel(text)
+    ? toEditableLabel(text).replace(/\{\/?\d+\/?\}/g, '')
+    : text;
+  const lines = editable.split('\n');
+  const lineWidths = lines.map(line =>
+    [...line].reduce(
+      (width, char) =>
+        width +
+        (family.includes('mono')
+          ? MONOSPACED_CHAR_WIDTH
+          : CHAR_WIDTHS.find(([regex]) => regex.test(char))?.[1] ??
+            DEFAULT_CHAR_WIDTH),
+      0
+    )
+  );
+
+  return {
+    width:
+      Math.max(...lineWidths) * fontSize * (bold ? BOLD_FACTOR : 1) +
+      LABEL_INSETS,
+    height: lines.length * fontSize * LINE_HEIGHT + LABEL_INSETS,
+  };
+}
+
+/**
+ * Format a size for the graphml attributes
+ */
+export function formatSize(size: number) {
+  return (Math.ceil(size * 10) / 10).toFixed(1);
+}
@@ -0,0 +1,108 @@
+import * as path from 'path';
+
+import { createCsv, importCsv } from './csv';
+import { createXlsx, importXlsx } from './excel';
+import { createJson, importJson } from './json';
+import {
+  createTranslationDocument,
+  createTranslationFile,
+  getUnitsFromTranslation,
+  parseTranslationFile,
+} from './translation';
+
+import type { ExportFormat, TranslationFormat } from './types';
+
+const formats: Record<string, ExportFormat> = {
+  xlsx: {
+    extensions: ['.xlsx'],
+    create: (units, metadata, options) =>
+      createXlsx(units, metadata, options.columnsToExcel, options.workbook),
+    parse: (file, options) => importXlsx(file, options),
+  },
+  csv: {
+    extensions: ['.csv'],
+    create: (units, metadata, options) =>
+      Buffer.from(createCsv(units, metadata, options.columnsToExcel)),
+    parse: (file, options) => importCsv(file.toString('utf-8'), options),
+  },
+  json: {
+    extensions: ['.json'],
+    create: (units, metadata, options) =>
+      Buffer.from(createJson(units, metadata, options.columnsToExcel)),
+    parse: (file, options) => importJson(file.toString('utf-8'), options),
+  },
+  xliff: createTranslationFormat('xliff', ['.xlf', '.xliff']),
+  xliff2: createTranslationFormat('xliff2', ['.xlf', '.xliff']),
+  po: createTranslationFormat('po', ['.po']),
+};
+
+/**
+ * Register a custom export and import format
+ *
+ * @param name - Name of the format used in the `format` option
+ * @param format - Functions to create and parse the files
+ */
+export function registerFormat(name: string, format: ExportFormat) {
+  formats[name] = format;
+}
+
+/**
+ * Get a registered format
+ *
+ * @param name - Name of the format, e.g. `xlsx` or `csv`
+ * @returns Functions to create and parse the files
+ */
+export function getFormat(name: string) {
+  const format = formats[name];
+  if (format === undefined)
+    throw new Error(
+      `Unknown format "${name}", expected one of: ${getFormatNames().join(
+        ', '
+      )}`
+    );
+  return format;
+}
+
+/**
+ * Get the names of the registered formats
+ */
+export function getFormatNames() {
+  return Object.keys(formats);
+}
+
+/**
+ * Get the format of a file by its extension. If several formats use the same
+ * extension (XLIFF 1.2 and 2.0), the first one is returned.
+ *
+ * @param filename - File name
+ * @returns Name of the format, undefined for unknown extensions
+ */
+export function getFormatByFilename(filename: string) {
+  const ext = path.extname(filename).toLowerCase();
+  return Object.keys(formats).find(name =>
+    formats[name].extensions.includes(ext)
+  );
+}
+
+function createTranslationFormat(
+  name: TranslationFormat,
+  extensions: string[]
+): ExportFormat {
+  return {
+    extensions,
+    create: (units, metadata, options) => {
+      const document = createTranslationDocument(units, metadata, options);
+      return Buffer.from(createTranslationFile(document, name));
+    },
+    // XLIFF version and PO are detected from the contents
+    parse: async (file, options) => {
+      const document = await parseTranslationFile(file.toString('utf-8'));
+      const units = getUnitsFromTranslation(document, options);
+      return {
+        units,
+        metadata: document.metadata,
+        warnings: document.warnings,
+      };
+    },
+  };
+}
@@ -0,0 +1,110 @@
+import { promises as fs } from 'fs';
+import { write, utils } from 'xlsx';
+
+import { generateGraph } from '.';
+import { parseGraphmlFormat, getUnitsFromGraph } from './graphml';
+import { parseGraphSheets } from './generate';
+
+const DATA_DIR = __dirname + '/../data';
+const OUTPUT_XLSX = DATA_DIR + '/output.generate.xlsx';
+
+function createWorkbook(
+  nodes: Record<string, string | number>[],
+  edges: Record<string, string | number>[]
+) {
+  const wb = utils.book_new();
+  utils.book_append_sheet(wb, utils.json_to_sheet(nodes), 'Nodes');
+  utils.book_append_sheet(wb, utils.json_to_sheet(edges), 'Edges');
+  return write(wb, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+}
+
+describe('generate.ts', () => {
+  test('generate a layered graph of the sheets', async () => {
+    await fs.writeFile(
+      OUTPUT_XLSX,
+      createWorkbook(
+        [
+          { id: 'start', label: 'Start', shape: 'ellipse', color: '#99CC00' },
+          { id: 'ask', label: 'How are you?' },
+          { id: 1, label: 'Fine', shape: 'Diamond' },
+        ],
+        [
+          { source: 'start', target: 'ask' },
+          { source: 'ask', target: 1, label: 'yes' },
+          { source: 1, target: 'start' },
+        ]
+      )
+    );
+
+    const xml = await generateGraph(OUTPUT_XLSX, { layout: 'layered' });
+    const units = getUnitsFromGraph(await parseGraphmlFormat(xml), {
+      fieldsToExport: {
+        node: {
+          y: 'y:Geometry/@y',
+          color: 'y:Fill/@color',
+          shape: 'y:Shape/@type',
+        },
+      },
+    });
+
+    expect(
+      units.map(({ id, type, source, target, label, fields }) =>
+        JSON.parse(
+          JSON.stringify({ id, type, source, target, label, ...fields })
+        )
+      )
+    ).toEqual([
+      {
+        id: 'start',
+        type: 'node',
+        label: 'Start',
+        y: '0.0',
+        color: '#99CC00',
+        shape: 'ellipse',
+      },
+      {
+        id: 'ask',
+        type: 'node',
+        label: 'How are you?',
+        y: '90.0',
+        color: '#FFCC00',
+        shape: 'rectangle',
+      },
+      {
+        id: '1',
+        type: 'node',
+        label: 'Fine',
+        y: '180.0',
+        color: '#FFCC00',
+        shape: 'diamond',
+      },
+      { id: 'e0', type: 'edge', source: 'start', target: 'ask', label: null },
+      { id: 'e1', type: 'edge', source: 'ask', target: '1', label: 'yes' },
+      { id: 'e2', type: 'edge', source: '1', target: 'start', label: null },
+    ]);
+    expect(xml).toContain(
+      '<key for="node" id="d6" yfiles.type="nodegraphics"/>'
+    );
+  });
+
+  test('invalid rows are reported with the row number', () => {
+    expect(() =>
+      parseGraphSheets(
+        createWorkbook([{ id: 'n0' }], [{ source: 'n0', target: 'n1' }])
+      )
+    ).toThrow(
+      'Unknown node n1 in the target column on row 2 of the Edges sheet'
+    );
+    expect(() =>
+      parseGraphSheets(createWorkbook([{ id: 'n0' }, { id: 'n0' }], []))
+    ).toThrow('Duplicate id n0 on row 3 of the Nodes sheet');
+    expect(() =>
+      parseGraphSheets(createWorkbook([{ id: 'n0' }, {}, { id: 'n0' }], []))
+    ).toThrow('Duplicate id n0 on row 4 of the Nodes sheet');
+    expect(() =>
+      parseGraphSheets(createWorkbook([{ id: 'n0', color: 'red' }], []))
+    ).toThrow(
+      'Invalid color red, expected #RRGGBB on row 2 of the Nodes sheet'
+    );
+  });
+});
@@ -0,0 +1,333 @@
+import { read, utils, WorkBook } from 'xlsx';
+import Debug from 'debug';
+const debug = Debug('yedxtract:generate');
+
+import { createEdgeElement, createNodeElement } from './create';
+import { getSheetRows } from './excel';
+import { writeFieldPath } from './path';
+import { isColor } from './styles';
+
+import type {
+  GeneratedEdge,
+  GeneratedNode,
+  Graphml,
+  GraphLayout,
+  XMLField,
+} from './types';
+
+const NODES_SHEET = 'Nodes';
+const EDGES_SHEET = 'Edges';
+
+// Shapes of `y:ShapeNode`
+const SHAPES = [
+  'rectangle',
+  'roundrectangle',
+  'ellipse',
+  'parallelogram',
+  'hexagon',
+  'octagon',
+  'diamond',
+  'triangle',
+  'trapezoid',
+  'trapezoid2',
+  'rectangle3d',
+];
+const DEFAULT_COLOR = '#FFCC00';
+
+// Node size is estimated from the label: 12px Dialog is about 7px per
+// character and 18px per line
+const MIN_WIDTH = 80;
+const CHAR_WIDTH = 7;
+const LINE_HEIGHT = 18;
+const PADDING = 12;
+const H_GAP = 40;
+const V_GAP = 60;
+
+// Keys of a graphml file created by yEd
+const NODE_KEY = 'd6';
+const EDGE_KEY = 'd10';
+const KEYS: Array<Record<string, string>> = [
+  { 'attr.name': 'Description', 'attr.type': 'string', for: 'graph', id: 'd0' },
+  { for: 'port', id: 'd1', 'yfiles.type': 'portgraphics' },
+  { for: 'port', id: 'd2', 'yfiles.type': 'portgeometry' },
+  { for: 'port', id: 'd3', 'yfiles.type': 'portuserdata' },
+  { 'attr.name': 'url', 'attr.type': 'string', for: 'node', id: 'd4' },
+  { 'attr.name': 'description', 'attr.type': 'string', for: 'node', id: 'd5' },
+  { for: 'node', id: NODE_KEY, 'yfiles.type': 'nodegraphics' },
+  { for: 'graphml', id: 'd7', 'yfiles.type': 'resources' },
+  { 'attr.name': 'url', 'attr.type': 'string', for: 'edge', id: 'd8' },
+  { 'attr.name': 'description', 'attr.type': 'string', for: 'edge', id: 'd9' },
+  { for: 'edge', id: EDGE_KEY, 'yfiles.type': 'edgegraphics' },
+];
+const NAMESPACES = {
+  xmlns: 'http://graphml.graphdrawing.org/xmlns',
+  'xmlns:java': 'http://www.yworks.com/xml/yfiles-common/1.0/java',
+  'xmlns:sys': 'http://www.yworks.com/xml/yfiles-common/markup/primitives/2.0',
+  'xmlns:x': 'http://www.yworks.com/xml/yfiles-common/markup/2.0',
+  'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+  'xmlns:y': 'http://www.yworks.com/xml/graphml',
+  'xmlns:yed': 'http://www.yworks.com/xml/yed/3',
+  'xsi:schemaLocation':
+    'http://graphml.graphdrawing.org/xmlns http://www.yworks.com/xml/schema/graphml/1.1/ygraphml.xsd',
+};
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Read the nodes and edges of a workbook. The `Nodes` sheet has the columns
+ * `id`, `label`, `shape` and `color` and the optional `Edges` sheet the
+ * columns `source`, `target`, `label` and `id`. Only `id`, `source` and
+ * `target` are mandatory.
+ *
+ * @param xlsx - Excel file contents
+ * @returns Nodes and edges
+ */
+export function parseGraphSheets(xlsx: Buffer) {
+  const workbook = read(xlsx);
+  const nodeSheet = readSheet(workbook, NODES_SHEET);
+  if (nodeSheet === undefined)
+    throw new Error(`"${NODES_SHEET}"-sheet not present`);
+  const edgeSheet = readSheet(workbook, EDGES_SHEET) ?? {
+    rows: [],
+    rowNumbers: [],
+  };
+
+  const nodes = nodeSheet.rows.map((row, i): GeneratedNode => {
+    const fail = (message: string): never => {
+      throw new Error(
+        `${message} on row ${nodeSheet.rowNumbers[i]} of the ${NODES_SHEET} sheet`
+      );
+    };
+
+    const id = row.id ?? fail('Id missing');
+    const shape = row.shape?.toLowerCase() ?? SHAPES[0];
+    if (!SHAPES.includes(shape))
+      fail(`Unknown shape ${shape}, expected one of: ${SHAPES.join(', ')}`);
+    const color = row.color ?? DEFAULT_COLOR;
+    if (!isColor(color)) fail(`Invalid color ${color}, expected #RRGGBB`);
+
+    return { id, label: row.label ?? '', shape, color };
+  });
+
+  const nodeIds = new Set<string>();
+  nodes.forEach(({ id }, i) => {
+    if (nodeIds.has(id))
+      throw new Error(
+        `Duplicate id ${id} on row ${nodeSheet.rowNumbers[i]} of the ${NODES_SHEET} sheet`
+      );
+    nodeIds.add(id);
+  });
+
+  const edgeIds = new Set<string>();
+  const edges = edgeSheet.rows.map((row, i): GeneratedEdge => {
+    const fail = (message: string): never => {
+      throw new Error(
+        `${message} on row ${edgeSheet.rowNumbers[i]} of the ${EDGES_SHEET} sheet`
+      );
+    };
+
+    for (const column of ['source', 'target'] as const) {
+      const node = row[column];
+      if (node === undefined) fail(`${column} missing`);
+      else if (!nodeIds.has(node))
+        fail(`Unknown node ${node} in the ${column} column`);
+    }
+
+    const id = row.id ?? `e${i}`;
+    if (edgeIds.has(id)) fail(`Duplicate id ${id}`);
+    edgeIds.add(id);
+
+    return {
+      id,
+      source: String(row.source),
+      target: String(row.target),
+      label: row.label ?? '',
+    };
+  });
+
+  debug(`Read ${nodes.length} nodes and ${edges.length} edges`);
+  return { nodes, edges };
+}
+
+/**
+ * Create a yEd graph of the nodes and edges. The nodes are rectangles or
+ * other `y:ShapeNode` shapes sized by the label and the edges straight lines.
+ *
+ * @param nodes - Nodes of the graph
+ * @param edges - Edges between the nodes
+ * @param [layout] - `grid` (default) or `layered` to place the nodes in
+ *                   layers following the edges from top to bottom
+ * @returns Graphml file as JS object
+ */
+export function createGraph(
+  nodes: GeneratedNode[],
+  edges: GeneratedEdge[],
+  layout: GraphLayout = 'grid'
+): Graphml {
+  const sizes = nodes.map(node => getNodeSize(node.label));
+  const boxes =
+    layout === 'layered'
+      ? layoutLayers(nodes, edges, sizes)
+      : layoutGrid(sizes);
+
+  const nodeElements = nodes.map((node, i) => {
+    const element = createNodeElement(node.id, NODE_KEY);
+    const realizer = getRealizer(element, 'y:ShapeNode');
+    for (const [attribute, value] of Object.entries(boxes[i]))
+      writeFieldPath(realizer, `y:Geometry/@${attribute}`, value.toFixed(1));
+    writeFieldPath(realizer, 'y:Fill/@color', node.color);
+    writeFieldPath(realizer, 'y:Shape/@type', node.shape);
+    writeFieldPath(realizer, 'y:NodeLabel', node.label);
+    return element;
+  });
+
+  const edgeElements = edges.map(edge => {
+    const element = createEdgeElement(
+      edge.id,
+      edge.source,
+      edge.target,
+      EDGE_KEY,
+      undefined,
+      edge.label !== ''
+    );
+    const realizer = getRealizer(element, 'y:PolyLineEdge');
+    writeFieldPath(realizer, 'y:EdgeLabel', edge.label);
+    return element;
+  });
+
+  return {
+    graphml: {
+      $: NAMESPACES,
+      key: KEYS.map(key => ({ $: key })),
+      graph: [
+        {
+          $: { edgedefault: 'directed', id: 'G' },
+          data: [{ $: { key: 'd0', 'xml:space': 'preserve' } }],
+          node: nodeElements,
+          edge: edgeElements,
+        },
+      ],
+      data: [{ $: { key: 'd7' }, 'y:Resources': [''] }],
+    },
+  };
+}
+
+/**
+ * Get the rows of a sheet with string values and their row numbers, the sheet
+ * name is case insensitive
+ */
+function readSheet(workbook: WorkBook, name: string) {
+  const sheetName = workbook.SheetNames.find(
+    sheet => sheet.toLowerCase() === name.toLowerCase()
+  );
+  if (sheetName === undefined) return undefined;
+
+  const rows: Record<string, unknown>[] = utils.sheet_to_json(
+    workbook.Sheets[sheetName]
+  );
+  const values = rows.map(row =>
+    Object.fromEntries(
+      Object.entries(row)
+        .map(([column, value]) => [column.trim().toLowerCase(), value])
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([column, value]) => [column, String(value)])
+    )
+  ) as Array<Partial<Record<string, string>>>;
+  return { rows: values, rowNumbers: getSheetRows(rows) };
+}
+
+function getRealizer(element: XMLField, name: string) {
+  const [data] = element.data as XMLField[];
+  const [realizer] = data[name] as XMLField[];
+  return realizer;
+}
+
+function getNodeSize(label: string) {
+  const lines = label.split('\n');
+  const longest = Math.max(...lines.map(line => line.length));
+  return {
+    width: Math.max(MIN_WIDTH, longest * CHAR_WIDTH + 2 * PADDING),
+    height: lines.length * LINE_HEIGHT + PADDING,
+  };
+}
+
+/**
+ * Place the nodes in rows of a square grid
+ */
+function layoutGrid(sizes: Array<{ width: number; height: number }>): Box[] {
+  const columns = Math.ceil(Math.sqrt(sizes.length));
+  const cellWidth = Math.max(0, ...sizes.map(s => s.width)) + H_GAP;
+  const cellHeight = Math.max(0, ...sizes.map(s => s.height)) + V_GAP;
+
+  return sizes.map(({ width, height }, i) => ({
+    x: (i % columns) * cellWidth + (cellWidth - H_GAP - width) / 2,
+    y: Math.floor(i / columns) * cellHeight,
+    width,
+    height,
+  }));
+}
+
+/**
+ * Place the nodes in layers so that the edges point downwards. The layer of
+ * a node is the length of the longest path to it, edges closing a cycle are
+ * ignored. The layers are centered horizontally.
+ */
+function layoutLayers(
+  nodes: GeneratedNode[],
+  edges: GeneratedEdge[],
+  sizes: Array<{ width: number; height: number }>
+): Box[] {
+  const outgoing = new Map<string, string[]>();
+  for (const { source, target } of edges)
+    outgoing.set(source, [...(outgoing.get(source) ?? []), target]);
+
+  // Edges back to a node on the current path close a cycle, the search starts
+  // from the nodes in the order of the sheet
+  const incoming = new Map<string, string[]>();
+  const visited = new Set<string>();
+  const path = new Set<string>();
+  const visit = (id: string) => {
+    visited.add(id);
+    path.add(id);
+    for (const target of outgoing.get(id) ?? []) {
+      if (path.has(target)) continue;
+      incoming.set(target, [...(incoming.get(target) ?? []), id]);
+      if (!visited.has(target)) visit(target);
+    }
+    path.delete(id);
+  };
+  for (const { id } of nodes) if (!visited.has(id)) visit(id);
+
+  const layers = new Map<string, number>();
+  const getLayer = (id: string): number => {
+    const known = layers.get(id);
+    if (known !== undefined) return known;
+
+    const sources = incoming.get(id) ?? [];
+    const layer = Math.max(0, ...sources.map(source => getLayer(source) + 1));
+    layers.set(id, layer);
+    return layer;
+  };
+
+  const nodeLayers = nodes.map(node => getLayer(node.id));
+  const layerCount = Math.max(0, ...nodeLayers) + 1;
+  const rowHeight = Math.max(0, ...sizes.map(s => s.height)) + V_GAP;
+
+  // Width of each layer and the widest layer for centering
+  const rowWidths = new Array<number>(layerCount).fill(-H_GAP);
+  sizes.forEach(({ width }, i) => (rowWidths[nodeLayers[i]] += width + H_GAP));
+  const maxWidth = Math.max(...rowWidths);
+
+  const nextX = rowWidths.map(width => (maxWidth - width) / 2);
+  return sizes.map(({ width, height }, i) => {
+    const layer = nodeLayers[i];
+    const x = nextX[layer];
+    nextX[layer] += width + H_GAP;
+    return { x, y: layer * rowHeight, width, height };
+  });
+}
@@ -1,12 +1,21 @@
 import { promises as fs } from 'fs';
 
-import { parseGraphmlFormat } from './graphml';
+import {
+  parseGraphmlFormat,
+  getUnitsFromGraph,
+  updateGraph,
+  convertToGraphmlFormat,
+} from './graphml';
+
+import type { OutputUnit } from './types';
 
 describe('graphml.ts', () => {
   let graphFile: string;
+  let groupsFile: string;
 
   beforeAll(async () => {
     graphFile = await fs.readFile('./data/simple.graphml', 'utf-8');
+    groupsFile = await fs.readFile('./data/groups.graphml', 'utf-8');
   });
 
   describe('parseGraphmlFile()', () => {
@@ -22,4 +31,333 @@ describe('graphml.ts', () => {
       expect('node' in graph.graphml.graph[0]).toBe(true);
     });
   });
+
+  describe('getUnitsFromGraph()', () => {
+    test('units of nested graphs in group and folder nodes', async () => {
+      const graph = await parseGraphmlFormat(groupsFile);
+      const units = getUnitsFromGraph(graph).map(({ data, ...unit }) => unit);
+
+      expect(units.map(u => [u.id, u.parent, u.label])).toEqual([
+        ['n0', undefined, 'Open group'],
+        ['n0::n0', 'n0', 'Inside'],
+        ['n0::n1', 'n0', 'Also inside'],
+        ['n1', undefined, 'Open folder'],
+        ['n1::n0', 'n1', 'Hidden'],
+        ['n2', undefined, 'Outside'],
+        ['e0', undefined, 'Out'],
+        ['e1', undefined, null],
+        ['n0::e0', 'n0', 'Next'],
+      ]);
+
+      expect(units.filter(u => u.closedLabel !== undefined)).toEqual([
+        expect.objectContaining({ id: 'n0', closedLabel: 'Closed group' }),
+        expect.objectContaining({ id: 'n1', closedLabel: 'Closed folder' }),
+      ]);
+    });
+
+    test('fields with string paths', async () => {
+      const graph = await parseGraphmlFormat(graphFile);
+      const units = getUnitsFromGraph(graph, {
+        fieldsToExport: {
+          node: {
+            color: 'y:Fill/@color',
+            custom: 'y:NodeLabel[@modelName="custom"]',
+            model: '*[@modelName]/@modelName',
+          },
+          edge: { arrow: 'y:Arrows/@target' },
+        },
+      });
+
+      expect(units.slice(0, 3).map(u => u.fields)).toEqual([
+        { color: '#FFCC66', custom: 'START: <name>', model: 'custom' },
+        { color: '#99FF99', custom: null, model: 'internal' },
+        {
+          color: '#E8EEF7',
+          custom: '<mood>How are you doing?',
+          model: 'custom',
+        },
+      ]);
+      expect(units[7].fields).toEqual({ arrow: 'standard' });
+
+      expect(() =>
+        getUnitsFromGraph(graph, {
+          fieldsToExport: { common: { color: 'y:Fill/@colour' } },
+        })
+      ).toThrow(
+        'Path "y:Fill/@colour" of field color matches nothing in the nodes or edges of the graph'
+      );
+    });
+  });
+
+  describe('updateGraph()', () => {
+    test('labels of nested and group nodes', async () => {
+      const graph = await parseGraphmlFormat(groupsFile);
+      updateGraph(
+        graph,
+        [
+          { id: 'n0', type: 'node', closedLabel: 'Suljettu ryhmä', fields: {} },
+          { id: 'n1', type: 'node', label: 'Avoin kansio', fields: {} },
+          { id: 'n0::n1', type: 'node', label: 'Myös sisällä', fields: {} },
+          { id: 'n0::e0', type: 'edge', label: 'Seuraava', fields: {} },
+        ],
+        {}
+      );
+
+      const updated = await parseGraphmlFormat(convertToGraphmlFormat(graph));
+      const labels = Object.fromEntries(
+        getUnitsFromGraph(updated).map(u => [u.id, [u.label, u.closedLabel]])
+      );
+
+      expect(labels['n0']).toEqual(['Open group', 'Suljettu ryhmä']);
+      expect(labels['n1']).toEqual(['Avoin kansio', 'Closed folder']);
+      expect(labels['n0::n1']).toEqual(['Myös sisällä', undefined]);
+      expect(labels['n0::e0']).toEqual(['Seuraava', undefined]);
+    });
+
+    test('create nodes and edges', async () => {
+      const graph = await parseGraphmlFormat(groupsFile);
+      const report = updateGraph(
+        graph,
+        [
+          {
+            id: 'e9',
+            type: 'edge',
+            source: 'n2',
+            target: 'n9',
+            label: 'Uusi',
+            fields: {},
+          },
+          { id: 'n9', type: 'node', label: 'Uusi solmu', fields: {} },
+          { id: 'n0::n9', type: 'node', label: 'Ryhmässä', fields: {} },
+          { id: 'n2::n9', type: 'node', label: 'Ei ryhmä', fields: {} },
+          { id: 'e10', type: 'edge', source: 'n2', target: 'n99', fields: {} },
+        ],
+        {},
+        { createUnits: true, nodeTemplate: 'n2' }
+      );
+
+      expect(report.created).toEqual(['n9', 'n0::n9', 'e9']);
+      expect(report.unknownIds).toEqual(['n2::n9', 'e10']);
+
+      const updated = await parseGraphmlFormat(convertToGraphmlFormat(graph));
+      const units = getUnitsFromGraph(updated).map(({ data, ...unit }) => unit);
+      expect(
+        units
+          .filter(u => report.created.includes(u.id))
+          .map(u => [u.id, u.unitType, u.parent, u.source, u.target, u.label])
+      ).toEqual([
+        ['n0::n9', 'y:ShapeNode', 'n0', undefined, undefined, 'Ryhmässä'],
+        ['n9', 'y:ShapeNode', undefined, undefined, undefined, 'Uusi solmu'],
+        ['e9', 'y:PolyLineEdge', undefined, 'n2', 'n9', 'Uusi'],
+      ]);
+    });
+
+    test('created units get a label for each label column', async () => {
+      const graph = await parseGraphmlFormat(graphFile);
+      const report = updateGraph(
+        graph,
+        [
+          {
+            id: 'eNew',
+            type: 'edge',
+            source: 'n0',
+            target: 'n1',
+            labels: { label_2: 'second' },
+            fields: {},
+          },
+          {
+            id: 'nNew',
+            type: 'node',
+            label: 'first',
+            labels: { label_3: 'third' },
+            fields: {},
+          },
+          {
+            id: 'nCopy',
+            type: 'node',
+            labels: { label_2: 'copy' },
+            fields: {},
+          },
+        ],
+        {},
+        { createUnits: true, nodeTemplate: 'n6' }
+      );
+      expect(report.skippedColumns).toEqual([]);
+
+      const updated = await parseGraphmlFormat(convertToGraphmlFormat(graph));
+      const units = getUnitsFromGraph(updated).filter(u =>
+        report.created.includes(u.id)
+      );
+      expect(units.map(u => [u.id, u.label, u.labels])).toEqual([
+        ['nNew', 'first', { label_2: null, label_3: 'third' }],
+        ['nCopy', null, { label_2: 'copy' }],
+        ['eNew', null, { label_2: 'second' }],
+      ]);
+    });
+
+    test('delete units which are not imported', async () => {
+      const graph = await parseGraphmlFormat(groupsFile);
+      const units = getUnitsFromGraph(graph).filter(u => u.id !== 'n0');
+      const report = updateGraph(graph, units, {}, { deleteUnits: true });
+
+      // Contents of the group and the edge from the group are deleted too
+      expect(report.deleted).toEqual([
+        { id: 'n0', type: 'node' },
+        { id: 'n0::n0', type: 'node' },
+        { id: 'n0::n1', type: 'node' },
+        { id: 'e0', type: 'edge' },
+        { id: 'n0::e0', type: 'edge' },
+      ]);
+
+      const updated = await parseGraphmlFormat(convertToGraphmlFormat(graph));
+      expect(getUnitsFromGraph(updated).map(u => u.id)).toEqual([
+        'n1',
+        'n1::n0',
+        'n2',
+        'e1',
+      ]);
+    });
+
+    test('edges redirected away from deleted nodes are kept', async () => {
+      const graph = await parseGraphmlFormat(graphFile);
+      const units = getUnitsFromGraph(graph)
+        .filter(u => u.id !== 'n0')
+        .map(u => (u.id === 'e0' ? { ...u, source: 'n2' } : u));
+      const report = updateGraph(graph, units, {}, { deleteUnits: true });
+
+      expect(report.deleted).toEqual([{ id: 'n0', type: 'node' }]);
+      const updated = await parseGraphmlFormat(convertToGraphmlFormat(graph));
+      const e0 = getUnitsFromGraph(updated).find(u => u.id === 'e0');
+      expect([e0?.source, e0?.target]).toEqual(['n2', 'n1']);
+    });
+
+    test('invalid edges are rejected with the row numbers', async () => {
+      const graph = await parseGraphmlFormat(graphFile);
+      const units = [
+        { id: 'n0', type: 'node' as const, row: 6, fields: {} },
+        { id: 'e0', type: 'edge' as const, target: 'n9', row: 7, fields: {} },
+        { id: 'e1', type: 'edge' as const, target: 'n1', row: 9, fields: {} },
+        {
+          id: 'e4',
+          type: 'edge' as const,
+          source: 'n2',
+          target: 'n3',
+          fields: {},
+        },
+      ];
+
+      expect(() => updateGraph(graph, units, {})).toThrow(
+        'Invalid edges in the import:\n' +
+          'Row 7 (edge e0): target "n9", node not found'
+      );
+      const other = await parseGraphmlFormat(graphFile);
+      expect(() =>
+        updateGraph(
+          other,
+          units.slice(2),
+          {},
+          {
+            rejectSelfLoops: true,
+            rejectDuplicateEdges: true,
+          }
+        )
+      ).toThrow(
+        'Row 9 (edge e1): target "n1", edge from a node to itself\n' +
+          'Edge e4: target "n3", duplicate of edge e2'
+      );
+    });
+
+    test('edges which are not imported are not validated', async () => {
+      const graph = await parseGraphmlFormat(
+        graphFile.replace('source="n0" target="n1"', 'source="n0" target="n99"')
+      );
+      const report = updateGraph(
+        graph,
+        [
+          { id: 'n1', type: 'node', label: 'Hei', fields: {} },
+          { id: 'e0', type: 'edge', fields: {} },
+        ],
+        {}
+      );
+      expect(report.updated).toBe(1);
+    });
+
+    test('changed labels are resized to fit their text', async () => {
+      const label = [
+        'Tilaus',
+        'on',
+        'vastaanotettu',
+        'ja',
+        'maksettu',
+        'kokonaan',
+      ].join('\n');
+      const units: OutputUnit[] = [
+        { id: 'n1', type: 'node', label, fields: {} },
+      ];
+
+      const graph = await parseGraphmlFormat(graphFile);
+      const report = updateGraph(graph, units, {}, { fitLabels: true });
+      expect(report.overflows).toEqual([
+        {
+          id: 'n1',
+          column: 'label',
+          width: 84.9,
+          height: 92.8,
+          nodeWidth: 181.68810666666667,
+          nodeHeight: 84.03055706666657,
+        },
+      ]);
+      let xml = convertToGraphmlFormat(graph);
+      expect(xml).toContain('height="88.8" horizontalTextPosition');
+
+      const other = await parseGraphmlFormat(graphFile);
+      expect(
+        updateGraph(other, units, {}, { fitNodes: true }).overflows
+      ).toEqual([]);
+      xml = convertToGraphmlFormat(other);
+      expect(xml).toContain(
+        '<y:Geometry height="92.8" width="181.68810666666667" x="416.15594666666664" y="206.7"'
+      );
+    });
+
+    test('fields with string paths', async () => {
+      const graph = await parseGraphmlFormat(graphFile);
+      const report = updateGraph(
+        graph,
+        [
+          {
+            id: 'n0',
+            type: 'node',
+            fields: { color: '#000000', model: 'internal', missing: 'x' },
+          },
+        ],
+        {
+          node: {
+            color: 'y:Fill/@color',
+            model: 'y:NodeLabel[*]/@modelName',
+            missing: 'y:Shape/@type',
+          },
+        }
+      );
+
+      expect(report.changes.map(c => [c.column, c.before, c.after])).toEqual([
+        ['color', '#FFCC66', '#000000'],
+        ['model', 'custom', 'internal'],
+      ]);
+      expect(report.skippedColumns).toEqual([
+        { id: 'n0', column: 'missing', reason: 'field path matches nothing' },
+      ]);
+
+      const updated = await parseGraphmlFormat(convertToGraphmlFormat(graph));
+      const [unit] = getUnitsFromGraph(updated, {
+        fieldsToExport: {
+          node: {
+            color: 'y:Fill/@color',
+            custom: 'y:NodeLabel[@modelName="custom"]',
+          },
+        },
+      });
+      expect(unit.fields).toEqual({ color: '#000000', custom: null });
+    });
+  });
 });
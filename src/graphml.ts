@@ -11,9 +11,30 @@ import type {
   XMLValue,
   GraphmlKeys,
   ExtractElements,
+  EdgeIssue,
   ExtractedGraphUnit,
+  ExportFilter,
   ExportOptions,
+  FieldPath,
+  PropertyKey,
+  UpdateOptions,
+  UpdateReport,
 } from './types';
+import { getUnitLabels, labelColumn, parseLabelColumn } from './labels';
+import { readFieldPath, writeFieldPath } from './path';
+import { matchesExportFilter, validateExportFilter } from './filter';
+import { addStyleFields, getStyleField, validateStyleValue } from './styles';
+import {
+  addLabelElements,
+  createEdgeElement,
+  createNodeElement,
+} from './create';
+import { estimateLabelSize, formatSize, NODE_PADDING } from './fit';
+import {
+  fromEditableLabel,
+  toEditableLabel,
+  validateEditedLabel,
+} from './html';
 
 /**
  * Parse yEd editor's graphml (XML) to JS object
@@ -55,7 +76,23 @@ export function getUnitsFromGraph(graph: Graphml, options?: ExportOptions) {
   const graphUnits = getAllGraphUnits(graph);
 
   if (options === undefined) options = {};
-  let units = extractFields(graphUnits, options.fieldsToExport ?? {});
+
+  const propertyKeys = options.exportProperties
+    ? getPropertyKeys(graph)
+    : undefined;
+
+  if (options.filter) validateExportFilter(options.filter);
+
+  let units = extractFields(
+    graphUnits,
+    addStyleFields(options.fieldsToExport ?? {}, options.styles),
+    propertyKeys,
+    options.filter
+  );
+
+  // Properties of the top-level graph are exported as a separate unit
+  if (propertyKeys && propertyKeys.graph.length > 0)
+    units.unshift(getGraphPropertiesUnit(graph, propertyKeys.graph));
 
   const { postProcess } = options;
   if (typeof postProcess === 'function') {
@@ -71,45 +108,105 @@ export function getUnitsFromGraph(graph: Graphml, options?: ExportOptions) {
 }
 
 /**
- * Update graph by merging `newUnits` to the existing graph
+ * Update graph by merging `newUnits` to the existing graph. The graph is
+ * modified in place. If the imported edges are invalid, an error is thrown
+ * after the update and the graph is left partly updated.
  *
  * @param graph - Graphml file as JS object
  * @param newUnits - Updated values for nodes and edges
- * @returns Updated graph
+ * @param extractedFields - Fields of the export, other fields are skipped
+ * @param [options] - Create units which are not in the graph and delete units
+ *                    which are not in `newUnits`
+ * @returns Changed values, unknown ids, skipped columns and created and
+ *          deleted units
  */
 export function updateGraph(
   graph: Graphml,
   newUnits: OutputUnit[],
-  extractedFields: ExtractFields
+  extractedFields: ExtractFields,
+  options: UpdateOptions = {}
 ) {
   const oldUnits = getAllGraphUnits(graph);
   const elements = extractElements(oldUnits);
+  const propertyKeys = getPropertyKeys(graph);
+  const keyOrder = graph.graphml.key.map(key => key.$.id);
+
+  const report: UpdateReport = {
+    updated: 0,
+    changes: [],
+    unknownIds: [],
+    skippedColumns: [],
+    created: [],
+    deleted: [],
+    overflows: [],
+  };
+
+  if (options.createUnits)
+    elements.push(...createUnits(graph, newUnits, elements, options, report));
 
   for (const unit of newUnits) {
+    const changeCount = report.changes.length;
+
+    if (unit.type === 'graph') {
+      const rootGraph = graph.graphml.graph[0];
+      if (rootGraph.$.id !== unit.id) {
+        report.unknownIds.push(unit.id);
+        continue;
+      }
+      setProperties(rootGraph, propertyKeys.graph, unit, keyOrder, report);
+      if (report.changes.length > changeCount) report.updated++;
+      continue;
+    }
+
     // Find corresponding element
     const element = elements.find(e => e.id === unit.id);
     if (!element) {
-      console.warn(`Unknown input row (id=${unit.id})`);
+      report.unknownIds.push(unit.id);
       continue;
     }
 
-    // Update fixed fields (source, target, label)
-    const { source, target, label } = unit;
-    if (source !== undefined) element.attributes.source = source;
-    if (target !== undefined) element.attributes.target = target;
-    if (label !== undefined) {
-      if (element.type === 'node')
-        setNestedProperty(
-          element.elements,
-          ['y:NodeLabel', '[0]', '_'],
-          label ?? ''
-        );
-      else
-        setNestedProperty(
-          element.elements,
-          ['y:EdgeLabel', '[0]', '_'],
-          label ?? ''
-        );
+    // Update fixed fields (source, target, labels)
+    for (const attribute of ['source', 'target'] as const) {
+      const value = unit[attribute];
+      if (value === undefined) continue;
+      addChange(report, unit.id, attribute, element[attribute], value);
+      element.attributes[attribute] = value;
+    }
+
+    for (const [column, label] of Object.entries(getUnitLabels(unit))) {
+      const { index, closed } = parseLabelColumn(column) ?? {};
+      if (index === undefined) continue;
+
+      const labelElements = closed ? element.closedElements : element.elements;
+      if (!labelElements) {
+        report.skippedColumns.push({
+          id: unit.id,
+          column,
+          reason: 'closed label of a unit which is not a group node',
+        });
+        continue;
+      }
+
+      const before = getLabels(labelElements, element.type)[index];
+      const original = getRawLabels(labelElements, element.type)[index];
+      const invalid =
+        label !== null && original
+          ? validateEditedLabel(label, original)
+          : undefined;
+      if (invalid) {
+        report.skippedColumns.push({ id: unit.id, column, reason: invalid });
+        continue;
+      }
+
+      if (!setLabel(labelElements, element.type, index, label)) {
+        report.skippedColumns.push({
+          id: unit.id,
+          column,
+          reason: 'label not found',
+        });
+        continue;
+      }
+      addChange(report, unit.id, column, before, label);
     }
 
     // Update user-defined fields
@@ -122,16 +219,601 @@ export function updateGraph(
       if (val === undefined) continue;
       const propPath = fields[field];
       if (propPath == null) {
-        console.warn(
-          `Field without entry in extractedFields metadata, skipping (${field})`
-        );
+        report.skippedColumns.push({
+          id: unit.id,
+          column: field,
+          reason: 'field without entry in extractedFields metadata',
+        });
+        continue;
+      }
+
+      const styleField = getStyleField(element.type, field, propPath);
+      const invalid = styleField && validateStyleValue(styleField, val);
+      if (invalid) {
+        report.skippedColumns.push({
+          id: unit.id,
+          column: field,
+          reason: invalid,
+        });
+        continue;
+      }
+
+      const before = getField(element.elements, propPath);
+      if (!setField(element.elements, propPath, val ?? '')) {
+        report.skippedColumns.push({
+          id: unit.id,
+          column: field,
+          reason: 'field path matches nothing',
+        });
         continue;
       }
-      setNestedProperty(element.elements, propPath, val ?? '');
+      addChange(report, unit.id, field, before, val);
     }
+
+    // Update user-defined properties
+    setProperties(
+      element.xml,
+      propertyKeys[element.type],
+      unit,
+      keyOrder,
+      report
+    );
+
+    const changedLabels = report.changes
+      .slice(changeCount)
+      .filter(({ column }) => parseLabelColumn(column) !== undefined)
+      .map(({ column }) => column);
+    if (changedLabels.length > 0)
+      fitLabels(element, changedLabels, options, report);
+
+    if (report.changes.length > changeCount) report.updated++;
   }
 
-  return graph;
+  if (options.deleteUnits) deleteUnits(graph, newUnits, elements, report);
+
+  const edgeIssues = validateEdges(newUnits, elements, options, report);
+  if (edgeIssues.length > 0)
+    throw new Error(
+      'Invalid edges in the import:\n' +
+        edgeIssues.map(formatEdgeIssue).join('\n')
+    );
+
+  debug(
+    `Updated ${report.updated} units, ${report.unknownIds.length} unknown ids`
+  );
+  return report;
+}
+
+/**
+ * Create the nodes and edges of the units which are not in the graph. Nodes
+ * are created first so that new edges can connect them. Units of nested
+ * graphs are created if the parent is a group or folder node. Edges are
+ * created only between existing nodes, other units stay unknown.
+ *
+ * @param graph - Graphml file as JS object, modified in place
+ * @param units - Imported units
+ * @param elements - Nodes and edges of the graph
+ * @param options - Templates of the new nodes and edges
+ * @param report - Report of the update, the created ids are added to it
+ * @returns Created nodes and edges
+ */
+function createUnits(
+  graph: Graphml,
+  units: OutputUnit[],
+  elements: ExtractedGraphUnit[],
+  options: UpdateOptions,
+  report: UpdateReport
+) {
+  const rootGraph = graph.graphml.graph[0];
+  const created: ExtractedGraphUnit[] = [];
+  const findElement = (id: string, type: 'node' | 'edge') =>
+    [...elements, ...created].find(e => e.id === id && e.type === type);
+
+  for (const type of ['node', 'edge'] as const) {
+    const dataKey = findKeyId(
+      graph.graphml.key,
+      'yfiles.type',
+      `${type}graphics`
+    );
+
+    const templateId =
+      type === 'node' ? options.nodeTemplate : options.edgeTemplate;
+    const template =
+      templateId === undefined ? undefined : findElement(templateId, type);
+    if (templateId !== undefined && template === undefined)
+      throw new Error(`Template ${type} ${templateId} not found in the graph`);
+
+    for (const unit of units) {
+      if (unit.type !== type || findElement(unit.id, type)) continue;
+
+      const parent = unit.parent ?? getParentId(unit.id);
+      const container =
+        parent === undefined
+          ? rootGraph
+          : getChildElements(
+              findElement(parent, 'node')?.xml ?? {},
+              'graph'
+            )[0];
+      if (container === undefined) continue;
+
+      let xml: XMLField;
+      if (type === 'node') {
+        xml = createNodeElement(unit.id, dataKey, template?.data);
+      } else {
+        const { source, target } = unit;
+        if (source === undefined || target === undefined) continue;
+        if (!findElement(source, 'node') || !findElement(target, 'node'))
+          continue;
+        xml = createEdgeElement(
+          unit.id,
+          source,
+          target,
+          dataKey,
+          template?.data
+        );
+      }
+
+      const children = container[type];
+      if (Array.isArray(children)) children.push(xml);
+      else container[type] = [xml];
+
+      const [element] = extractElements([
+        createGraphUnit(xml, type, dataKey, parent),
+      ]);
+      // One label for each imported label column, labels copied from the
+      // template are replaced by the imported labels
+      for (const closed of [false, true]) {
+        const labelElements = closed
+          ? element.closedElements
+          : element.elements;
+        if (!labelElements) continue;
+
+        const counts = Object.keys(getUnitLabels(unit))
+          .map(column => parseLabelColumn(column))
+          .filter(parsed => parsed?.closed === closed)
+          .map(parsed => (parsed?.index ?? 0) + 1);
+        addLabelElements(labelElements, type, Math.max(0, ...counts));
+        getLabels(labelElements, type).forEach((_, i) =>
+          setLabel(labelElements, type, i, null)
+        );
+      }
+
+      created.push(element);
+      report.created.push(unit.id);
+    }
+  }
+
+  debug(`Created ${created.length} units`);
+  return created;
+}
+
+/**
+ * Delete the nodes and edges which are not imported. The contents of deleted
+ * group nodes and the edges of deleted nodes are deleted too.
+ *
+ * @param graph - Graphml file as JS object, modified in place
+ * @param units - Imported units
+ * @param elements - Nodes and edges of the graph, group nodes before their
+ *                   contents
+ * @param report - Report of the update, the deleted units are added to it
+ */
+function deleteUnits(
+  graph: Graphml,
+  units: OutputUnit[],
+  elements: ExtractedGraphUnit[],
+  report: UpdateReport
+) {
+  const imported = new Set(units.map(unit => unit.id));
+  const deletedNodes = new Set<string>();
+  const isDeleted = (id?: string) => id !== undefined && deletedNodes.has(id);
+
+  for (const element of elements)
+    if (
+      element.type === 'node' &&
+      (!imported.has(element.id) || isDeleted(element.parent))
+    )
+      deletedNodes.add(element.id);
+
+  // The attributes have the sources and targets of the import
+  const deleted = elements.filter(element =>
+    element.type === 'node'
+      ? deletedNodes.has(element.id)
+      : !imported.has(element.id) ||
+        isDeleted(element.parent) ||
+        isDeleted(String(element.attributes.source)) ||
+        isDeleted(String(element.attributes.target))
+  );
+
+  for (const { id, type, xml } of deleted) {
+    removeChildElement(graph.graphml.graph[0], type, xml);
+    report.deleted.push({ id, type });
+  }
+  debug(`Deleted ${deleted.length} units`);
+}
+
+/**
+ * Resize the changed labels to their estimated text size and report the
+ * labels inside a node which do not fit in it. The labels are resized with
+ * `fitLabels` or `fitNodes` as allowed by their `autoSizePolicy`. With
+ * `fitNodes` nodes are enlarged around their center, group nodes are sized by
+ * their contents.
+ *
+ * @param element - Updated node or edge
+ * @param columns - Label columns changed by the update
+ * @param options - Resize the labels and nodes
+ * @param report - Report of the update, the overflowing labels are added to it
+ */
+function fitLabels(
+  element: ExtractedGraphUnit,
+  columns: string[],
+  options: UpdateOptions,
+  report: UpdateReport
+) {
+  const resizeLabels = options.fitLabels || options.fitNodes;
+  const resizeNode = options.fitNodes && !element.closedElements;
+
+  for (const column of columns) {
+    const { index, closed } = parseLabelColumn(column) ?? {};
+    const elements = closed ? element.closedElements : element.elements;
+    if (index === undefined || !elements) continue;
+
+    const labels = elements[labelElementName(element.type)];
+    const label = Array.isArray(labels) ? labels[index] : undefined;
+    if (typeof label !== 'object') continue;
+    if (typeof label.$ !== 'object' || Array.isArray(label.$)) label.$ = {};
+
+    const attributes = label.$;
+    const size = estimateLabelSize(
+      typeof label._ === 'string' ? label._ : '',
+      attributes
+    );
+    const policy = String(attributes.autoSizePolicy ?? 'content');
+    if (resizeLabels && (policy === 'content' || policy === 'node_height'))
+      attributes.width = formatSize(size.width);
+    if (resizeLabels && (policy === 'content' || policy === 'node_width'))
+      attributes.height = formatSize(size.height);
+
+    // Labels of edges and labels outside the node cannot overflow
+    const model = String(attributes.modelName ?? 'internal');
+    const inside = model === 'internal' || model === 'custom';
+    if (element.type !== 'node' || !inside) continue;
+
+    const [x, y, width, height] = ['x', 'y', 'width', 'height'].map(name =>
+      Number(readFieldPath(elements, `y:Geometry/@${name}`)[0])
+    );
+    if ([x, y, width, height].some(Number.isNaN)) continue;
+
+    const required = {
+      width: size.width + 2 * NODE_PADDING,
+      height: size.height + 2 * NODE_PADDING,
+    };
+    const nodeSize = {
+      width: resizeNode ? Math.max(width, required.width) : width,
+      height: resizeNode ? Math.max(height, required.height) : height,
+    };
+    if (nodeSize.width > width) {
+      writeFieldPath(
+        elements,
+        'y:Geometry/@x',
+        formatSize(x - (nodeSize.width - width) / 2)
+      );
+      writeFieldPath(elements, 'y:Geometry/@width', formatSize(nodeSize.width));
+      if (policy === 'node_width' || policy === 'node_size')
+        attributes.width = formatSize(nodeSize.width);
+    }
+    if (nodeSize.height > height) {
+      writeFieldPath(
+        elements,
+        'y:Geometry/@y',
+        formatSize(y - (nodeSize.height - height) / 2)
+      );
+      writeFieldPath(
+        elements,
+        'y:Geometry/@height',
+        formatSize(nodeSize.height)
+      );
+      if (policy === 'node_height' || policy === 'node_size')
+        attributes.height = formatSize(nodeSize.height);
+    }
+
+    if (required.width > nodeSize.width || required.height > nodeSize.height)
+      report.overflows.push({
+        id: element.id,
+        column,
+        width: Number(formatSize(required.width)),
+        height: Number(formatSize(required.height)),
+        nodeWidth: nodeSize.width,
+        nodeHeight: nodeSize.height,
+      });
+  }
+}
+
+/**
+ * Check the imported edges whose source or target changed or which were
+ * created: their sources and targets must be nodes of the updated graph and
+ * optionally they must not be self-loops or duplicates. Other edges of the
+ * graph are not checked.
+ *
+ * @param units - Imported units with the rows of the imported file
+ * @param elements - Nodes and edges of the updated graph
+ * @param options - Reject self-loops or duplicate edges
+ * @param report - Report of the update for the changed and deleted units
+ * @returns Invalid sources and targets, empty if all edges are valid
+ */
+function validateEdges(
+  units: OutputUnit[],
+  elements: ExtractedGraphUnit[],
+  options: UpdateOptions,
+  report: UpdateReport
+) {
+  const deleted = new Set(report.deleted.map(({ id }) => id));
+  const existing = elements.filter(({ id }) => !deleted.has(id));
+  const nodeIds = new Set(
+    existing.filter(({ type }) => type === 'node').map(({ id }) => id)
+  );
+  const edges = existing.filter(({ type }) => type === 'edge');
+
+  const rows = new Map(
+    units.flatMap(({ type, id, row }) =>
+      type === 'edge' && row !== undefined ? [[id, row] as const] : []
+    )
+  );
+  const changed = new Set([
+    ...report.created,
+    ...report.changes
+      .filter(({ column }) => column === 'source' || column === 'target')
+      .map(({ id }) => id),
+  ]);
+
+  const issues: EdgeIssue[] = [];
+  for (const { id, attributes } of edges) {
+    const source = String(attributes.source);
+    const target = String(attributes.target);
+    const addIssue = (column: 'source' | 'target', reason: string) =>
+      issues.push({
+        id,
+        row: rows.get(id),
+        column,
+        value: column === 'source' ? source : target,
+        reason,
+      });
+
+    if (!changed.has(id)) continue;
+
+    if (!nodeIds.has(source)) addIssue('source', 'node not found');
+    if (!nodeIds.has(target)) addIssue('target', 'node not found');
+
+    if (options.rejectSelfLoops && source === target)
+      addIssue('target', 'edge from a node to itself');
+
+    const duplicate = options.rejectDuplicateEdges
+      ? edges.find(
+          edge =>
+            edge.id !== id &&
+            edge.attributes.source === source &&
+            edge.attributes.target === target
+        )
+      : undefined;
+    if (duplicate) addIssue('target', `duplicate of edge ${duplicate.id}`);
+  }
+
+  return issues;
+}
+
+function formatEdgeIssue({ id, row, column, value, reason }: EdgeIssue) {
+  const unit = row === undefined ? `Edge ${id}` : `Row ${row} (edge ${id})`;
+  return `${unit}: ${column} ${JSON.stringify(value)}, ${reason}`;
+}
+
+/**
+ * Remove a node or edge element from a graph or its nested graphs
+ *
+ * @returns False if the element was not found, e.g. the contents of a removed
+ *          group node
+ */
+function removeChildElement(
+  graphElement: XMLField,
+  name: 'node' | 'edge',
+  xml: XMLField
+): boolean {
+  const children = graphElement[name];
+  const index = Array.isArray(children) ? children.indexOf(xml) : -1;
+  if (Array.isArray(children) && index >= 0) {
+    children.splice(index, 1);
+    return true;
+  }
+
+  return getChildElements(graphElement, 'node').some(node =>
+    getChildElements(node, 'graph').some(nested =>
+      removeChildElement(nested, name, xml)
+    )
+  );
+}
+
+/**
+ * Get the id of the group node from the id of a unit in a nested graph, e.g.
+ * `n0` from `n0::n1`
+ */
+function getParentId(id: string) {
+  const separator = id.lastIndexOf('::');
+  return separator < 0 ? undefined : id.slice(0, separator);
+}
+
+/**
+ * Add a change to the report if the value has changed. Null and an empty
+ * string are the same value in the graph.
+ */
+function addChange(
+  report: UpdateReport,
+  id: string,
+  column: string,
+  before: string | null | undefined,
+  after: string | null
+) {
+  if ((before ?? '') === (after ?? '')) return;
+  report.changes.push({ id, column, before: before ?? null, after });
+}
+
+/**
+ * Set the values of the unit's user-defined properties. A data element is
+ * created if the node, edge or graph does not have a value for the property.
+ *
+ * @param item - Node, edge or graph element
+ * @param keys - Property keys available for the type of the item
+ * @param unit - Unit containing the new property values
+ * @param keyOrder - Ids of all keys in the order of declaration
+ * @param report - Report of the update, changed and skipped properties are
+ *                 added to it
+ */
+function setProperties(
+  item: XMLField,
+  keys: PropertyKey[],
+  unit: OutputUnit,
+  keyOrder: string[],
+  report: UpdateReport
+) {
+  for (const [name, value] of Object.entries(unit.properties ?? {})) {
+    const key = keys.find(k => k.name === name);
+    if (!key) {
+      report.skippedColumns.push({
+        id: unit.id,
+        column: name,
+        reason: 'unknown property',
+      });
+      continue;
+    }
+
+    const dataElement = findDataElement(item, key.id);
+    if (dataElement) {
+      const before = dataElement._;
+      addChange(
+        report,
+        unit.id,
+        name,
+        typeof before === 'string' ? before : null,
+        value
+      );
+      dataElement._ = value ?? '';
+      continue;
+    }
+    addChange(report, unit.id, name, null, value);
+
+    // Keep the data elements in the order of the key declarations similar to
+    // yEd
+    if (!Array.isArray(item.data)) item.data = [];
+    const dataElements = getChildElements(item, 'data');
+    const keyIndex = keyOrder.indexOf(key.id);
+    const insertAt = dataElements.findIndex(
+      d => keyOrder.indexOf(getDataKey(d) ?? '') > keyIndex
+    );
+
+    const newElement: XMLField = { $: { key: key.id }, _: value ?? '' };
+    item.data.splice(
+      insertAt === -1 ? item.data.length : insertAt,
+      0,
+      newElement
+    );
+  }
+}
+
+/**
+ * Get the user-defined properties of nodes, edges and the graph, i.e. the keys
+ * with `attr.name` which are not yEd's internal keys
+ *
+ * @param graph - Graphml file as JS object
+ * @returns Property keys for each type
+ */
+function getPropertyKeys(graph: Graphml) {
+  const result: Record<'node' | 'edge' | 'graph', PropertyKey[]> = {
+    node: [],
+    edge: [],
+    graph: [],
+  };
+
+  for (const key of graph.graphml.key ?? []) {
+    const { id, for: keyFor } = key.$;
+    const name = key.$['attr.name'];
+    if (name === undefined || key.$['yfiles.type'] !== undefined) continue;
+
+    for (const type of ['node', 'edge', 'graph'] as const)
+      if (keyFor === type || keyFor === 'all') result[type].push({ id, name });
+  }
+
+  return result;
+}
+
+/**
+ * Get the values of user-defined properties
+ *
+ * @param item - Node, edge or graph element
+ * @param keys - Property keys to get
+ * @returns Property values keyed by the property name, null if the item does
+ *          not have a value for the property
+ */
+function getProperties(item: XMLField, keys: PropertyKey[]) {
+  const properties: Record<string, string | null> = {};
+
+  for (const key of keys) {
+    const dataElement = findDataElement(item, key.id);
+    const value = dataElement?._;
+    properties[key.name] = typeof value === 'string' ? value : null;
+  }
+
+  return properties;
+}
+
+function getGraphPropertiesUnit(graph: Graphml, keys: PropertyKey[]) {
+  const rootGraph = graph.graphml.graph[0];
+
+  const unit: OutputUnit = {
+    id: rootGraph.$.id,
+    type: 'graph',
+    properties: getProperties(rootGraph, keys),
+    fields: {},
+  };
+
+  return unit;
+}
+
+function findDataElement(item: XMLField, keyId: string) {
+  return getChildElements(item, 'data').find(d => getDataKey(d) === keyId);
+}
+
+function getDataKey(dataElement: XMLField) {
+  try {
+    return getNestedString(dataElement, ['$', 'key']);
+  } catch (err) {
+    return undefined;
+  }
+}
+
+/**
+ * Set the text of a label element
+ *
+ * @param elements - Elements of the unit
+ * @param type - node or edge
+ * @param index - Zero-based index of the label element
+ * @param label - New label text, null for an empty label
+ * @returns False if the label element does not exist
+ */
+function setLabel(
+  elements: XMLField,
+  type: 'node' | 'edge',
+  index: number,
+  label: string | null
+) {
+  const labelElements = elements[labelElementName(type)];
+  if (!Array.isArray(labelElements) || labelElements[index] === undefined)
+    return false;
+
+  // Edited HTML labels are converted back with the tags of the original
+  const labelElement = labelElements[index];
+  const original = getRawLabels(elements, type)[index] ?? '';
+  const text = label === null ? '' : fromEditableLabel(label, original);
+  if (typeof labelElement === 'string') labelElements[index] = text;
+  else labelElement._ = text;
+
+  return true;
 }
 
 /**
@@ -149,7 +831,8 @@ function getAllGraphUnits(graph: Graphml) {
 }
 
 /**
- * Get the all items of the type. Only include the data element defined in the
+ * Get the all items of the type, including the items in the nested graphs of
+ * group and folder nodes. Only include the data element defined in the
  * graph's Key attributes
  *
  * @param graph - graphml file as JS object
@@ -158,9 +841,9 @@ function getAllGraphUnits(graph: Graphml) {
  *          corresponding to the specified key is included
  */
 function getGraphUnit(graph: Graphml, type: 'node' | 'edge'): GraphUnit[] {
-  const data = graph.graphml.graph[0]?.[type];
+  const rootGraph = graph.graphml.graph?.[0];
 
-  if (!data) throw new Error(`Data missing for ${type}s`);
+  if (!rootGraph) throw new Error('Graph element missing');
 
   // Extract from the graph keys the key value used to identify node and edge
   // data; used in <data key="">
@@ -169,41 +852,107 @@ function getGraphUnit(graph: Graphml, type: 'node' | 'edge'): GraphUnit[] {
 
   const dataKey = findKeyId(graphKeys, 'yfiles.type', type + 'graphics');
 
-  return data.map(item => {
-    // Get item id (e.g., n10 or e10)
-    const id = getNestedString(item, ['$', 'id']);
+  return collectGraphUnits(rootGraph, type, dataKey);
+}
+
+/**
+ * Collect the items of the type from a graph element. Nodes are returned in
+ * document order so that the children of a group node follow the group node.
+ *
+ * @param graphElement - `graph` element, either the top-level graph or a nested
+ *                       graph of a group node
+ * @param type - Type of the data to get (node or edge)
+ * @param dataKey - Key of the data element containing the graphics
+ * @param [parent] - Id of the group node containing the graph
+ * @returns All items with the specified type in the graph and its nested graphs
+ */
+function collectGraphUnits(
+  graphElement: XMLField,
+  type: 'node' | 'edge',
+  dataKey: string,
+  parent?: string
+): GraphUnit[] {
+  const units: GraphUnit[] = [];
 
-    // Get all item's data fields
-    const itemDataFields = getNestedArray(item, ['data']);
+  if (type === 'edge') {
+    for (const edge of getChildElements(graphElement, 'edge'))
+      units.push(createGraphUnit(edge, type, dataKey, parent));
+  }
 
-    // Get the data fields specified by the `key=dataKey` parameter
-    const itemDataFieldsWithKey = itemDataFields.filter(
-      key =>
-        typeof key !== 'string' &&
-        getNestedString(key, ['$', 'key']) === dataKey
-    );
+  for (const node of getChildElements(graphElement, 'node')) {
+    if (type === 'node')
+      units.push(createGraphUnit(node, type, dataKey, parent));
 
-    // Verify only one element with the key is present
-    if (itemDataFieldsWithKey.length !== 1)
-      throw new Error(`Single item data field with ${dataKey} key not found`);
+    // Group and folder nodes contain a nested graph
+    const nodeId = getNestedString(node, ['$', 'id']);
+    for (const nestedGraph of getChildElements(node, 'graph'))
+      units.push(...collectGraphUnits(nestedGraph, type, dataKey, nodeId));
+  }
 
-    const itemData = itemDataFieldsWithKey[0];
-    if (itemData === undefined || typeof itemData === 'string')
-      throw new Error('Proper item data not found');
+  return units;
+}
 
-    const result: GraphUnit = {
-      id,
-      type,
-      data: itemData,
-      attributes: getNestedXMLField(item, ['$']),
-    };
+function createGraphUnit(
+  item: XMLField,
+  type: 'node' | 'edge',
+  dataKey: string,
+  parent?: string
+): GraphUnit {
+  // Get item id (e.g., n10 or e10)
+  const id = getNestedString(item, ['$', 'id']);
 
-    // Add source and target elements for edges
-    if (type === 'edge') {
-      result.source = getNestedString(item, ['$', 'source']);
-      result.target = getNestedString(item, ['$', 'target']);
-    }
-    return result;
+  // Get all item's data fields
+  const itemDataFields = getNestedArray(item, ['data']);
+
+  // Get the data fields specified by the `key=dataKey` parameter
+  const itemDataFieldsWithKey = itemDataFields.filter(
+    key =>
+      typeof key !== 'string' && getNestedString(key, ['$', 'key']) === dataKey
+  );
+
+  // Verify only one element with the key is present
+  if (itemDataFieldsWithKey.length !== 1)
+    throw new Error(`Single item data field with ${dataKey} key not found`);
+
+  const itemData = itemDataFieldsWithKey[0];
+  if (itemData === undefined || typeof itemData === 'string')
+    throw new Error('Proper item data not found');
+
+  const result: GraphUnit = {
+    id,
+    type,
+    data: itemData,
+    attributes: getNestedXMLField(item, ['$']),
+    xml: item,
+  };
+
+  if (parent !== undefined) result.parent = parent;
+
+  // Add source and target elements for edges
+  if (type === 'edge') {
+    result.source = getNestedString(item, ['$', 'source']);
+    result.target = getNestedString(item, ['$', 'target']);
+  }
+  return result;
+}
+
+/**
+ * Get child elements with the given name. Missing elements are returned as an
+ * empty array.
+ *
+ * @param data - Parent element
+ * @param name - Name of the child elements
+ * @returns Child elements
+ */
+function getChildElements(data: XMLField, name: string): XMLField[] {
+  const elements = data[name];
+  if (elements === undefined) return [];
+
+  if (!Array.isArray(elements)) throw new Error(`Invalid ${name} elements`);
+
+  return elements.map(element => {
+    if (typeof element === 'string') throw new Error(`Invalid ${name} element`);
+    return element;
   });
 }
 
@@ -261,7 +1010,13 @@ export function extractElements(
     const childType = childElementTypes[0];
 
     // Assume and verify that only one instance of the childType is present
-    const childElement = getXMLFieldFromSingletonArray(item.data, childType);
+    let childElement = getXMLFieldFromSingletonArray(item.data, childType);
+
+    // Group and folder nodes have separate realizers for the open and closed
+    // states, use the open state as the main element
+    let closedElement: XMLField | undefined;
+    if (childType === 'y:ProxyAutoBoundsNode')
+      [childElement, closedElement] = getGroupRealizers(childElement);
 
     // Object to store extracted elements
     const result: ExtractedGraphUnit = {
@@ -269,25 +1024,65 @@ export function extractElements(
       type: item.type,
       data: item.data,
       attributes: item.attributes,
+      xml: item.xml,
       unitType: childType,
       elements: {},
     };
 
     if (item.source !== undefined) result.source = item.source;
     if (item.target !== undefined) result.target = item.target;
+    if (item.parent !== undefined) result.parent = item.parent;
 
     if (elements) {
-      for (const element of [...elements[item.type], ...elements.common]) {
-        result.elements[element] = childElement[element];
-      }
+      const selected = [...elements[item.type], ...elements.common];
+      result.elements = pickElements(childElement, selected);
+      if (closedElement)
+        result.closedElements = pickElements(closedElement, selected);
     } else {
       result.elements = childElement;
+      if (closedElement) result.closedElements = closedElement;
     }
 
     return result;
   });
 }
 
+/**
+ * Get the realizers of the open and closed state of a group or folder node
+ *
+ * @param proxyNode - `y:ProxyAutoBoundsNode` element of the node
+ * @returns Realizer elements of the open and the closed state
+ */
+function getGroupRealizers(proxyNode: XMLField): [XMLField, XMLField?] {
+  const realizers = getXMLFieldFromSingletonArray(proxyNode, 'y:Realizers');
+
+  // Realizers can be of different types (e.g., y:GroupNode, y:GenericGroupNode)
+  const realizerElements = Object.keys(realizers)
+    .filter(k => k !== '$')
+    .flatMap(k => getChildElements(realizers, k));
+
+  const isClosed = (realizer: XMLField) => {
+    try {
+      return (
+        getNestedString(realizer, ['y:State', '[0]', '$', 'closed']) === 'true'
+      );
+    } catch (err) {
+      return false;
+    }
+  };
+
+  const open = realizerElements.find(r => !isClosed(r)) ?? realizerElements[0];
+  const closed = realizerElements.find(r => r !== open);
+
+  if (open === undefined) throw new Error('Group node realizers not found');
+
+  return [open, closed];
+}
+
+function pickElements(element: XMLField, names: string[]) {
+  return Object.fromEntries(names.map(name => [name, element[name]]));
+}
+
 /**
  * Extract certain fields from data items.
  *
@@ -295,15 +1090,21 @@ export function extractElements(
  *               `getGraphUnit` function
  * @param type - node or edge
  * @param fieldsToExtract - specify the fields which are extracted
+ * @param [propertyKeys] - user-defined properties which are extracted
+ * @param [filter] - nodes and edges which are extracted
  * @returns Array of objects containing the extracted fields
  */
 function extractFields(
   data: GraphUnit[],
-  fieldsToExtract: ExtractFields
+  fieldsToExtract: ExtractFields,
+  propertyKeys?: Record<'node' | 'edge', PropertyKey[]>,
+  filter?: ExportFilter
 ): OutputUnit[] {
   const elements = extractElements(data);
+  // Fields with a string path matched in some element, e.g. `node/color`
+  const matchedFields = new Set<string>();
 
-  return elements.map(element => {
+  const units = elements.flatMap(element => {
     const result: Record<string, string | null> = {};
 
     const fields = {
@@ -313,31 +1114,21 @@ function extractFields(
 
     // Get all user defined fields
     for (const output in fields) {
-      let data;
-      try {
-        data = getNestedString(element.elements, fields[output]);
-      } catch (err) {
-        data = null;
-      }
-      result[output] = data;
+      const propPath = fields[output];
+      if (typeof propPath === 'string') {
+        const values = readFieldPath(element.elements, propPath);
+        if (values.length > 0) matchedFields.add(`${element.type}/${output}`);
+        result[output] = values.find(value => value !== null) ?? null;
+      } else result[output] = getField(element.elements, propPath);
     }
 
-    // Get unit's label
-    let label;
-    try {
-      label =
-        element.type === 'node'
-          ? getNestedString(element.elements, ['y:NodeLabel', '[0]', '_'])
-          : getNestedString(element.elements, ['y:EdgeLabel', '[0]', '_']);
-    } catch (err) {
-      label = null;
-    }
+    const labels = getLabels(element.elements, element.type);
 
     const output: OutputUnit = {
       id: element.id,
       type: element.type,
       unitType: element.unitType,
-      label,
+      label: labels[0] ?? null,
       fields: result,
       data: element.data,
     };
@@ -347,7 +1138,152 @@ function extractFields(
       output.source = element.source;
       output.target = element.target;
     }
-    return output;
+
+    if (element.parent !== undefined) output.parent = element.parent;
+
+    // Group and folder nodes have separate labels for the closed state
+    const closedLabels = element.closedElements
+      ? getLabels(element.closedElements, element.type)
+      : undefined;
+    if (closedLabels) output.closedLabel = closedLabels[0] ?? null;
+
+    // Add the rest of the labels to separate columns
+    const additionalLabels = [
+      ...labels.map((label, i) => [labelColumn(i), label] as const),
+      ...(closedLabels ?? []).map(
+        (label, i) => [labelColumn(i, true), label] as const
+      ),
+    ].filter(([column]) => parseLabelColumn(column)?.index !== 0);
+
+    if (additionalLabels.length > 0)
+      output.labels = Object.fromEntries(additionalLabels);
+
+    if (propertyKeys)
+      output.properties = getProperties(
+        element.xml,
+        propertyKeys[element.type]
+      );
+
+    if (filter) {
+      const configuration = getField(element.elements, ['$', 'configuration']);
+      if (!matchesExportFilter(output, configuration ?? undefined, filter))
+        return [];
+    }
+
+    return [output];
+  });
+
+  validateFieldPaths(elements, fieldsToExtract, matchedFields);
+  return units;
+}
+
+/**
+ * Verify that each string field path matches something in the nodes or edges
+ * it is extracted from, a path matching nothing is most likely a typo
+ *
+ * @param elements - Extracted nodes and edges
+ * @param fieldsToExtract - Extracted fields
+ * @param matchedFields - Fields matched in some element, e.g. `node/color`
+ */
+function validateFieldPaths(
+  elements: ExtractedGraphUnit[],
+  fieldsToExtract: ExtractFields,
+  matchedFields: Set<string>
+) {
+  for (const group of ['node', 'edge', 'common'] as const) {
+    const types = (['node', 'edge'] as const).filter(
+      type =>
+        (group === 'common' || group === type) &&
+        elements.some(element => element.type === type)
+    );
+    if (types.length === 0) continue;
+
+    for (const [output, propPath] of Object.entries(
+      fieldsToExtract[group] ?? {}
+    )) {
+      if (typeof propPath !== 'string') continue;
+      // Styles may be missing, e.g. the font of edges without labels
+      if (group !== 'common' && getStyleField(group, output, propPath))
+        continue;
+      if (types.some(type => matchedFields.has(`${type}/${output}`))) continue;
+      throw new Error(
+        `Path "${propPath}" of field ${output} matches nothing in the ${types
+          .map(type => `${type}s`)
+          .join(' or ')} of the graph`
+      );
+    }
+  }
+}
+
+/**
+ * Get the value of a field, the first match of a string path
+ *
+ * @param elements - Elements of the unit
+ * @param propPath - Path of the field
+ * @returns Value or null if the path matches nothing
+ */
+function getField(elements: XMLField, propPath: FieldPath) {
+  if (typeof propPath === 'string')
+    return (
+      readFieldPath(elements, propPath).find(value => value !== null) ?? null
+    );
+
+  try {
+    return getNestedString(elements, propPath);
+  } catch (err) {
+    return null;
+  }
+}
+
+/**
+ * Set the value of a field, all matches of a string path are set
+ *
+ * @param elements - Elements of the unit
+ * @param propPath - Path of the field
+ * @param value - New value
+ * @returns False if the path matches nothing
+ */
+function setField(elements: XMLField, propPath: FieldPath, value: string) {
+  if (typeof propPath === 'string')
+    return writeFieldPath(elements, propPath, value) > 0;
+
+  try {
+    setNestedProperty(elements, propPath, value);
+    return true;
+  } catch (err) {
+    return false;
+  }
+}
+
+function labelElementName(type: 'node' | 'edge') {
+  return type === 'node' ? 'y:NodeLabel' : 'y:EdgeLabel';
+}
+
+/**
+ * Get the labels in the form edited in the exported files, see
+ * `toEditableLabel`
+ */
+function getLabels(elements: XMLField, type: 'node' | 'edge') {
+  return getRawLabels(elements, type).map(label =>
+    label === null ? null : toEditableLabel(label)
+  );
+}
+
+/**
+ * Get the texts of all label elements of the unit
+ *
+ * @param elements - Elements of the unit
+ * @param type - node or edge
+ * @returns Label texts in document order, null for labels without text
+ */
+function getRawLabels(elements: XMLField, type: 'node' | 'edge') {
+  const labelElements = elements[labelElementName(type)];
+  if (!Array.isArray(labelElements)) return [];
+
+  return labelElements.map(labelElement => {
+    if (typeof labelElement === 'string') return labelElement;
+    const text = labelElement._;
+    return typeof text === 'string' ? text : null;
   });
 }
 
@@ -0,0 +1,82 @@
+import { promises as fs } from 'fs';
+
+import {
+  parseGraphmlFormat,
+  getUnitsFromGraph,
+  updateGraph,
+  convertToGraphmlFormat,
+} from './graphml';
+import {
+  fromEditableLabel,
+  toEditableLabel,
+  validateEditedLabel,
+} from './html';
+
+const HTML_GRAPH = __dirname + '/../data/html.graphml';
+const LABEL =
+  '<html><b>Order</b> &amp; <font color="red">pay</font><br/>now<img src="x.png"></html>';
+
+describe('html.ts', () => {
+  test('HTML labels are edited with placeholders', () => {
+    const editable = toEditableLabel(LABEL);
+    expect(editable).toBe('{1}Order{/1} & {2}pay{/2}\nnow{3/}');
+    expect(toEditableLabel('Line 1\nLine 2')).toBe('Line 1\nLine 2');
+
+    expect(fromEditableLabel(editable, LABEL)).toBe(LABEL);
+    expect(fromEditableLabel('{2}Maksa{/2}\r\n{1}tilaus{/1} <3', LABEL)).toBe(
+      '<html><font color="red">Maksa</font><br/><b>tilaus</b> &lt;3</html>'
+    );
+    expect(fromEditableLabel('<html>Raw</html>', LABEL)).toBe(
+      '<html>Raw</html>'
+    );
+  });
+
+  test('placeholders must match the original and balance', () => {
+    expect(validateEditedLabel('{2}{1}x{/1}{/2}{3/}', LABEL)).toBeUndefined();
+    expect(validateEditedLabel('{1}x{/1}{4/}', LABEL)).toBe(
+      'unknown placeholder {4/}'
+    );
+    expect(validateEditedLabel('{1/}', LABEL)).toBe('unknown placeholder {1/}');
+    expect(validateEditedLabel('{1}{2}x{/1}{/2}', LABEL)).toBe(
+      'unbalanced placeholder {/1}'
+    );
+    expect(validateEditedLabel('{1}x', LABEL)).toBe(
+      'placeholder {1} not closed'
+    );
+    expect(validateEditedLabel('{1}x', 'Plain')).toBeUndefined();
+  });
+
+  test('invalid HTML labels are skipped on import', async () => {
+    const graph = await parseGraphmlFormat(
+      await fs.readFile(HTML_GRAPH, 'utf-8')
+    );
+    expect(getUnitsFromGraph(graph).map(u => [u.label, u.labels])).toEqual([
+      ['{1}Hello{/1}\nworld', { label_2: '{1}Second{/1}' }],
+      ['First line\nSecond line', undefined],
+    ]);
+
+    const report = updateGraph(
+      graph,
+      [
+        { id: 'n0', type: 'node', label: '{1}Hei{/1}\nmaailma', fields: {} },
+        { id: 'n1', type: 'node', label: 'Line 1\r\nLine 2', fields: {} },
+        {
+          id: 'n0',
+          type: 'node',
+          labels: { label_2: '{1}Toinen' },
+          fields: {},
+        },
+      ],
+      {}
+    );
+    expect(report.skippedColumns).toEqual([
+      { id: 'n0', column: 'label_2', reason: 'placeholder {1} not closed' },
+    ]);
+
+    const xml = convertToGraphmlFormat(graph);
+    expect(xml).toContain(
+      '&lt;html&gt;&lt;b&gt;Hei&lt;/b&gt;&lt;br&gt;maailma&lt;/html&gt;<y:LabelModel>'
+    );
+    expect(xml).toContain('Line 1\nLine 2<y:LabelModel>');
+  });
+});
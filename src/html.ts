@@ -0,0 +1,217 @@
+// yEd renders labels wrapped in <html> as HTML
+const HTML_REGEX = /^(\s*<html>)([\s\S]*?)(<\/html>\s*)$/i;
+const TAG_REGEX = /<(\/?)([a-z][a-z0-9]*)\b[^>]*?(\/?)>/gi;
+// Tags of the editable label: `{1}` and `{/1}` for paired tags and `{1/}` for
+// standalone ones
+const PLACEHOLDER_REGEX = /\{(\/?)(\d+)(\/?)\}/g;
+const VOID_TAGS = ['area', 'br', 'col', 'hr', 'img', 'input', 'wbr'];
+const DEFAULT_BR = '<br>';
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+};
+
+interface HtmlTag {
+  open: string;
+  close?: string;
+}
+
+interface TagPart {
+  id: number;
+  kind: 'open' | 'close' | 'void';
+}
+
+type HtmlPart = string | TagPart;
+
+interface ParsedHtml {
+  prefix: string;
+  suffix: string;
+  parts: HtmlPart[];
+  tags: Map<number, HtmlTag>;
+  br?: string;
+}
+
+/**
+ * Check whether yEd renders the label as HTML
+ *
+ * @param label - Label text
+ * @returns True if the label is wrapped in `<html>`
+ */
+export function isHtmlLabel(label: string) {
+  return HTML_REGEX.test(label);
+}
+
+/**
+ * Convert a label to the form edited in the exported files. HTML labels are
+ * shown as text: `<br>` as a line break, entities decoded and the other tags
+ * as numbered placeholders, e.g. `<html><b>Hello</b><br>world</html>` as
+ * `{1}Hello{/1}\nworld`. Other labels are not changed.
+ *
+ * @param label - Label of the graph
+ * @returns Editable label
+ */
+export function toEditableLabel(label: string) {
+  const parsed = parseHtml(label);
+  if (parsed === undefined) return label;
+
+  return parsed.parts
+    .map(part =>
+      typeof part === 'string'
+        ? part
+        : part.kind === 'open'
+        ? `{${part.id}}`
+        : part.kind === 'close'
+        ? `{/${part.id}}`
+        : `{${part.id}/}`
+    )
+    .join('')
+    .trim();
+}
+
+/**
+ * Check that the placeholders of an edited HTML label are those of the
+ * original label and that the paired tags balance
+ *
+ * @param edited - Edited label, see `toEditableLabel`
+ * @param original - Label of the graph
+ * @returns Reason why the label cannot be imported, undefined if it is valid
+ */
+export function validateEditedLabel(edited: string, original: string) {
+  const parsed = parseHtml(original);
+  if (parsed === undefined || isHtmlLabel(edited)) return undefined;
+
+  const open: number[] = [];
+  for (const [placeholder, slash, digits, selfClosing] of edited.matchAll(
+    PLACEHOLDER_REGEX
+  )) {
+    const id = Number(digits);
+    const tag = parsed.tags.get(id);
+    const paired = tag?.close !== undefined;
+    if (
+      tag === undefined ||
+      (slash !== '' && selfClosing !== '') ||
+      paired === (selfClosing !== '')
+    )
+      return `unknown placeholder ${placeholder}`;
+
+    if (selfClosing !== '') continue;
+    if (slash === '') open.push(id);
+    else if (open.pop() !== id) return `unbalanced placeholder ${placeholder}`;
+  }
+
+  const unclosed = open.pop();
+  if (unclosed !== undefined) return `placeholder {${unclosed}} not closed`;
+  return undefined;
+}
+
+/**
+ * Convert an edited label back to the label of the graph. Placeholders of HTML
+ * labels are replaced with the tags of the original label and line breaks
+ * with `<br>`. Unchanged labels keep the original markup.
+ *
+ * @param edited - Edited label, validated with `validateEditedLabel`
+ * @param original - Label of the graph
+ * @returns Label to set to the graph
+ */
+export function fromEditableLabel(edited: string, original: string) {
+  // XML parsers normalize line breaks to \n, CSV files may have \r\n
+  const text = edited.replace(/\r\n?/g, '\n');
+  const parsed = parseHtml(original);
+  if (parsed === undefined || isHtmlLabel(text)) return text;
+  if (text === toEditableLabel(original)) return original;
+
+  const br = parsed.br ?? DEFAULT_BR;
+  const escape = (value: string) =>
+    value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/\n/g, br);
+
+  let html = '';
+  let lastIndex = 0;
+  for (const match of text.matchAll(PLACEHOLDER_REGEX)) {
+    const [placeholder, slash, digits] = match;
+    const tag = parsed.tags.get(Number(digits));
+    html += escape(text.slice(lastIndex, match.index));
+    html += (slash === '' ? tag?.open : tag?.close) ?? placeholder;
+    lastIndex = (match.index ?? 0) + placeholder.length;
+  }
+  html += escape(text.slice(lastIndex));
+
+  return parsed.prefix + html + parsed.suffix;
+}
+
+/**
+ * Split an HTML label to texts and numbered tags. Closing tags get the number
+ * of the opening tag, tags without a pair are standalone.
+ */
+function parseHtml(label: string): ParsedHtml | undefined {
+  const match = HTML_REGEX.exec(label);
+  if (match === null) return undefined;
+  const [, prefix, content, suffix] = match;
+
+  const parts: HtmlPart[] = [];
+  const tags = new Map<number, HtmlTag>();
+  const open: Array<{ name: string; part: TagPart }> = [];
+  let br: string | undefined;
+  let lastIndex = 0;
+
+  for (const tagMatch of content.matchAll(TAG_REGEX)) {
+    const [tag, slash, tagName, selfClosing] = tagMatch;
+    const name = tagName.toLowerCase();
+    parts.push(decodeText(content.slice(lastIndex, tagMatch.index)));
+    lastIndex = (tagMatch.index ?? 0) + tag.length;
+
+    if (name === 'br' && slash === '') {
+      br ??= tag;
+      parts.push('\n');
+      continue;
+    }
+
+    const top = open[open.length - 1];
+    if (slash !== '' && top?.name === name) {
+      open.pop();
+      const tagInfo = tags.get(top.part.id);
+      if (tagInfo) tagInfo.close = tag;
+      parts.push({ id: top.part.id, kind: 'close' });
+      continue;
+    }
+
+    const part: TagPart = { id: tags.size + 1, kind: 'void' };
+    tags.set(part.id, { open: tag });
+    parts.push(part);
+    if (slash === '' && selfClosing === '' && !VOID_TAGS.includes(name)) {
+      part.kind = 'open';
+      open.push({ name, part });
+    }
+  }
+  parts.push(decodeText(content.slice(lastIndex)));
+
+  // Opening tags without a closing tag are standalone
+  for (const { part } of open) part.kind = 'void';
+
+  return { prefix, suffix, parts, tags, br };
+}
+
+/**
+ * Decode the entities of HTML text. Line breaks of the source are spaces
+ * when rendered.
+ */
+function decodeText(text: string) {
+  return text
+    .replace(/[ \t]*\n[ \t]*/g, ' ')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+      if (name[0] !== '#') return ENTITIES[name.toLowerCase()] ?? entity;
+      const code =
+        name[1].toLowerCase() === 'x'
+          ? parseInt(name.slice(2), 16)
+          : parseInt(name.slice(1), 10);
+      return String.fromCodePoint(code);
+    });
+}
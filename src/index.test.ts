@@ -1,13 +1,41 @@
 import { promises as fs } from 'fs';
+import { CFB, read, write, utils } from 'xlsx';
 
-import { exportExcel, importExcel } from '.';
+import {
+  diffExcel,
+  exportExcel,
+  formatImportDiff,
+  formatImportReport,
+  importExcel,
+  importExcelLanguages,
+} from '.';
 import { readFile } from './file';
+import { parseGraphmlFormat, getUnitsFromGraph } from './graphml';
 import type { ExportOptions } from './types';
 
 const ORIGINAL_GRAPH = __dirname + '/../data/simple.graphml';
 const OUTPUT_EXCEL = __dirname + '/../data/simple.xlsx';
 const TRANSLATED_EXCEL = __dirname + '/../data/simple-translated.xlsx';
 const TRANSLATED_GRAPH = __dirname + '/../data/simple-translated.graphml';
+const LABELS_GRAPH = __dirname + '/../data/labels.graphml';
+const OUTPUT_EXCEL_TMP = __dirname + '/../data/output.index.xlsx';
+const CHANGED_GRAPH = __dirname + '/../data/output.changed.graphml';
+
+/**
+ * Edit cells of the Content sheet of an exported xlsx file
+ */
+function editContent(
+  xlsx: Buffer,
+  edit: (rows: Record<string, unknown>[]) => void
+) {
+  const wb = read(xlsx);
+  const rows: Record<string, unknown>[] = utils.sheet_to_json(
+    wb.Sheets['Content']
+  );
+  edit(rows);
+  wb.Sheets['Content'] = utils.json_to_sheet(rows);
+  return write(wb, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+}
 
 describe('index.ts', () => {
   test('export from graphml to xlsx', async () => {
@@ -30,12 +58,443 @@ describe('index.ts', () => {
 
   test('import from xlsx to graphml', async () => {
     // Read imported data
-    const graphmlFile = await importExcel(ORIGINAL_GRAPH, TRANSLATED_EXCEL, {
-      fieldsToImport: { include: ['id', 'label'] },
-    });
+    const { xml: graphmlFile } = await importExcel(
+      ORIGINAL_GRAPH,
+      TRANSLATED_EXCEL,
+      { fieldsToImport: { include: ['id', 'label'] } }
+    );
 
     // Compare to existing binary file
     const { data: expectedGraph } = await readFile(TRANSLATED_GRAPH);
     expect(graphmlFile).toEqual(expectedGraph);
   });
+
+  test('dry run lists the changes of each unit', async () => {
+    const diff = await diffExcel(ORIGINAL_GRAPH, TRANSLATED_EXCEL, {
+      fieldsToImport: { include: ['id', 'label'] },
+    });
+
+    expect(diff.units.filter(u => u.status === 'changed')).toEqual([
+      {
+        id: 'n5',
+        type: 'node',
+        status: 'changed',
+        changes: [{ column: 'label', before: 'PALAA', after: 'RETURN' }],
+      },
+      {
+        id: 'n6',
+        type: 'node',
+        status: 'changed',
+        changes: [{ column: 'label', before: 'LOPETA', after: 'EXIT' }],
+      },
+    ]);
+    expect(diff.units.filter(u => u.status === 'unchanged')).toHaveLength(11);
+
+    const text = formatImportDiff(diff);
+    expect(text).toContain('n4 (node): unchanged\n');
+    expect(text).toContain('n5 (node): changed\n  label: "PALAA" → "RETURN"\n');
+    expect(formatImportDiff(diff, 'html')).toContain(
+      '<td class="before">PALAA</td><td class="after">RETURN</td>'
+    );
+  });
+
+  test('export and import all labels', async () => {
+    const xlsxFile = await exportExcel(LABELS_GRAPH);
+
+    const edited = editContent(xlsxFile, rows => {
+      expect(rows.map(r => [r.id, r.label, r.label_2, r.label_3])).toEqual([
+        ['n0', 'Customer', 'id: number', 'name: string'],
+        ['n1', 'Order', undefined, undefined],
+        ['e0', '1', 'places', '0..*'],
+      ]);
+      rows[0].label_3 = 'nimi: merkkijono';
+      rows[2].label_2 = 'tekee';
+    });
+    await fs.writeFile(OUTPUT_EXCEL_TMP, edited);
+
+    const { xml, report } = await importExcel(LABELS_GRAPH, OUTPUT_EXCEL_TMP);
+    const units = getUnitsFromGraph(await parseGraphmlFormat(xml));
+
+    expect(report.updated).toBe(2);
+    expect(report.changes).toEqual([
+      {
+        id: 'n0',
+        column: 'label_3',
+        before: 'name: string',
+        after: 'nimi: merkkijono',
+      },
+      { id: 'e0', column: 'label_2', before: 'places', after: 'tekee' },
+    ]);
+    expect(units.map(u => [u.id, u.label, u.labels])).toEqual([
+      [
+        'n0',
+        'Customer',
+        { label_2: 'id: number', label_3: 'nimi: merkkijono' },
+      ],
+      ['n1', 'Order', undefined],
+      ['e0', '1', { label_2: 'tekee', label_3: '0..*' }],
+    ]);
+  });
+
+  test('export and import user-defined properties', async () => {
+    const xlsxFile = await exportExcel(ORIGINAL_GRAPH, {
+      exportProperties: true,
+    });
+
+    const edited = editContent(xlsxFile, rows => {
+      expect(rows[0]).toEqual({ type: 'graph', id: 'G' });
+      expect(rows[1]).toEqual(expect.objectContaining({ id: 'n0' }));
+      rows[0].Description = 'Mood flowchart';
+      rows[2].description = 'Greeting';
+      rows[8].url = 'https://example.com';
+    });
+    await fs.writeFile(OUTPUT_EXCEL_TMP, edited);
+
+    const { xml } = await importExcel(ORIGINAL_GRAPH, OUTPUT_EXCEL_TMP);
+    const units = getUnitsFromGraph(await parseGraphmlFormat(xml), {
+      exportProperties: true,
+    });
+
+    expect(units[0].properties).toEqual({ Description: 'Mood flowchart' });
+    expect(units[2].properties).toEqual({ url: null, description: 'Greeting' });
+    expect(units[8].properties).toEqual({
+      url: 'https://example.com',
+      description: null,
+    });
+
+    // Data elements are created in the order of the key declarations
+    expect(xml).toContain(
+      '<node id="n1"><data key="d5">Greeting</data><data key="d6">'
+    );
+  });
+
+  test('export and import multiple languages', async () => {
+    // A user-defined field with a name like a translation column
+    const xlsxFile = await exportExcel(LABELS_GRAPH, {
+      languages: ['fi', 'sv'],
+      fieldsToExport: { node: { label_abc: ['y:Fill', '[0]', '$', 'color'] } },
+    });
+
+    const [header] = utils.sheet_to_json(read(xlsxFile).Sheets['Content'], {
+      header: 1,
+    });
+    expect(header).toEqual([
+      'type',
+      'id',
+      'source',
+      'target',
+      'unitType',
+      'label',
+      'label_2',
+      'label_3',
+      'label_fi',
+      'label_2_fi',
+      'label_3_fi',
+      'label_sv',
+      'label_2_sv',
+      'label_3_sv',
+      'label_abc',
+    ]);
+
+    const edited = editContent(xlsxFile, rows => {
+      rows[0].label_fi = 'Asiakas';
+      rows[0].label_sv = 'Kund';
+      rows[1].label_fi = 'Tilaus';
+      rows[1].label_abc = '#000000';
+    });
+    await fs.writeFile(OUTPUT_EXCEL_TMP, edited);
+
+    const labelsOf = async (xml: string) =>
+      getUnitsFromGraph(await parseGraphmlFormat(xml)).map(u => u.label);
+
+    const results = await importExcelLanguages(LABELS_GRAPH, OUTPUT_EXCEL_TMP);
+    expect(Object.keys(results)).toEqual(['fi', 'sv']);
+    expect(await labelsOf(results.fi.xml)).toEqual(['Asiakas', 'Tilaus', '1']);
+    expect(results.fi.xml).toContain('<y:Fill color="#000000"');
+    expect(await labelsOf(results.sv.xml)).toEqual(['Kund', 'Order', '1']);
+
+    const { xml } = await importExcel(LABELS_GRAPH, OUTPUT_EXCEL_TMP, {
+      language: 'sv',
+    });
+    expect(xml).toEqual(results.sv.xml);
+  });
+
+  test.each(['csv', 'json'])('export and import %s', async format => {
+    const options: ExportOptions = {
+      format,
+      fieldsToExport: { node: { color: ['y:Fill', '[0]', '$', 'color'] } },
+    };
+    const file = (await exportExcel(ORIGINAL_GRAPH, options)).toString();
+
+    const output = `${__dirname}/../data/output.index.${format}`;
+    if (format === 'csv') {
+      expect(file).toContain('#yedFilename,simple.graphml\r\n');
+      expect(file).toContain(
+        '\r\nnode,n0,,,y:GenericNode,START: <name>,#FFCC66\r\n'
+      );
+      await fs.writeFile(
+        output,
+        file.replace('START: <name>', '"Hei, ""maailma""!"')
+      );
+    } else {
+      const document = JSON.parse(file);
+      expect(document.metadata.yedFilename).toBe('simple.graphml');
+      expect(document.units[0]).toEqual({
+        id: 'n0',
+        type: 'node',
+        unitType: 'y:GenericNode',
+        label: 'START: <name>',
+        fields: { color: '#FFCC66' },
+      });
+      document.units[0].label = 'Hei, "maailma"!';
+      await fs.writeFile(output, JSON.stringify(document));
+    }
+
+    const { xml } = await importExcel(ORIGINAL_GRAPH, output);
+    const units = getUnitsFromGraph(await parseGraphmlFormat(xml));
+    expect(units[0].label).toBe('Hei, "maailma"!');
+    expect(units[1].label).toBe('Hello world!');
+  });
+
+  test('invalid edges of a CSV file are reported with the lines', async () => {
+    const file = (await exportExcel(ORIGINAL_GRAPH, { format: 'csv' }))
+      .toString()
+      .replace('\r\nnode,n1,', '\r\n\r\nnode,n1,')
+      .replace('Hello world!', '"Hello\r\nworld!"')
+      .replace('edge,e4,n3,n5', 'edge,e4,n3,n9');
+    const output = __dirname + '/../data/output.index.csv';
+    await fs.writeFile(output, file);
+
+    await expect(importExcel(ORIGINAL_GRAPH, output)).rejects.toThrow(
+      'Row 19 (edge e4): target "n9", node not found'
+    );
+  });
+
+  test('strict and merge hash checks of a changed graph', async () => {
+    const options: ExportOptions = {
+      storeOriginals: true,
+      languages: ['fi'],
+      fieldsToExport: { node: { color: ['y:Fill', '[0]', '$', 'color'] } },
+    };
+    const xlsxFile = await exportExcel(ORIGINAL_GRAPH, options);
+
+    const edited = editContent(xlsxFile, rows => {
+      expect(rows[1]).toEqual(
+        expect.objectContaining({
+          label: 'Hello world!',
+          'original:label': 'Hello world!',
+          'original:color': '#99FF99',
+        })
+      );
+      rows[0].label = 'Alku';
+      rows[1].label = 'Hei maailma!';
+      rows[2].color = '#000000';
+      // Translations have no original values
+      rows[3].label_fi = 'Hienoa!';
+    });
+    await fs.writeFile(OUTPUT_EXCEL_TMP, edited);
+
+    // The designer changes a label after the export
+    const { data } = await readFile(ORIGINAL_GRAPH);
+    await fs.writeFile(
+      CHANGED_GRAPH,
+      data.replace('Hello world!', 'Hello there!')
+    );
+
+    await expect(
+      importExcel(CHANGED_GRAPH, OUTPUT_EXCEL_TMP, { hashCheck: 'strict' })
+    ).rejects.toThrow('import refused');
+
+    const { xml, report } = await importExcel(CHANGED_GRAPH, OUTPUT_EXCEL_TMP, {
+      hashCheck: 'merge',
+    });
+    expect(report.hashMismatch).toBe(true);
+    expect(report.conflicts).toEqual([
+      {
+        id: 'n1',
+        column: 'label',
+        original: 'Hello world!',
+        current: 'Hello there!',
+        imported: 'Hei maailma!',
+      },
+    ]);
+
+    const units = getUnitsFromGraph(await parseGraphmlFormat(xml), options);
+    expect(units.slice(0, 4).map(u => [u.label, u.fields.color])).toEqual([
+      ['Alku', '#FFCC66'],
+      ['Hello there!', '#99FF99'],
+      ['<mood>How are you doing?', '#000000'],
+      ["That's nice!", '#99FF99'],
+    ]);
+  });
+
+  test('status of the labels since the previous export', async () => {
+    await fs.writeFile(
+      OUTPUT_EXCEL_TMP,
+      await exportExcel(ORIGINAL_GRAPH, { trackChanges: true })
+    );
+
+    // The label of n1 is changed and n6 is replaced with n7
+    const { data } = await readFile(ORIGINAL_GRAPH);
+    await fs.writeFile(
+      CHANGED_GRAPH,
+      data
+        .replace('Hello world!', 'Hello there!')
+        .replace('<node id="n6">', '<node id="n7">')
+        .replace('target="n6"', 'target="n7"')
+    );
+
+    const xlsxFile = await exportExcel(CHANGED_GRAPH, {
+      previousExport: OUTPUT_EXCEL_TMP,
+    });
+    const ws = read(xlsxFile, { cellStyles: true }).Sheets['Content'];
+    const [header] = utils.sheet_to_json<string[]>(ws, { header: 1 });
+    expect(header.slice(-3)).toEqual(['status', 'previousLabel', 'sourceHash']);
+    expect(ws['!cols']?.map(col => col.hidden ?? false).slice(-3)).toEqual([
+      false,
+      false,
+      true,
+    ]);
+
+    const rows: Record<string, string>[] = utils.sheet_to_json(ws);
+    expect(rows.map(row => [row.id, row.status, row.previousLabel])).toEqual([
+      ['n0', 'unchanged', undefined],
+      ['n1', 'changed', 'Hello world!'],
+      ['n2', 'unchanged', undefined],
+      ['n3', 'unchanged', undefined],
+      ['n4', 'unchanged', undefined],
+      ['n5', 'unchanged', undefined],
+      ['n7', 'new', undefined],
+      ['e0', 'unchanged', undefined],
+      ['e1', 'unchanged', undefined],
+      ['e2', 'unchanged', undefined],
+      ['e3', 'unchanged', undefined],
+      ['e4', 'unchanged', undefined],
+      ['e5', 'unchanged', undefined],
+      ['n6', 'removed', 'LOPETA'],
+    ]);
+
+    // Removed units are not imported
+    await fs.writeFile(OUTPUT_EXCEL_TMP, xlsxFile);
+    const { report } = await importExcel(CHANGED_GRAPH, OUTPUT_EXCEL_TMP);
+    expect(report.unknownIds).toEqual([]);
+    expect(report.changes).toEqual([]);
+  });
+
+  test('protected workbook with drop-down lists', async () => {
+    const xlsxFile = await exportExcel(ORIGINAL_GRAPH, {
+      styles: ['fill', 'border'],
+      workbook: { protect: true, validation: { fillColor: ['#FFCC66'] } },
+    });
+
+    const wb = read(xlsxFile, { cellStyles: true });
+    const ws = wb.Sheets['Content'];
+    const [header] = utils.sheet_to_json<string[]>(ws, { header: 1 });
+    expect(header.slice(5)).toEqual([
+      'label',
+      'fillColor',
+      'borderColor',
+      'borderWidth',
+      'borderType',
+      'original:label',
+    ]);
+    expect(ws['!cols']?.[10].hidden).toBe(true);
+
+    const zip = CFB.read(xlsxFile, { type: 'buffer' });
+    const sheet = Buffer.from(
+      CFB.find(zip, '/xl/worksheets/sheet1.xml').content
+    ).toString();
+    expect(sheet).toContain('<pane ySplit="1" topLeftCell="A2"');
+    expect(sheet).toContain('<sheetProtection sheet="1"');
+    // Read-only id column, wrapped editable label column
+    expect(sheet).toContain('<c r="B2" t="str" s="0">');
+    expect(sheet).toContain('<c r="F2" t="str" s="4">');
+    expect(sheet).toContain(
+      'sqref="G2:G1048576"><formula1>"#FFCC66"</formula1>'
+    );
+    expect(sheet).toContain(
+      'sqref="J2:J1048576"><formula1>"line,dashed,dotted,dashed_dotted"</formula1>'
+    );
+
+    await fs.writeFile(OUTPUT_EXCEL_TMP, xlsxFile);
+    const { report } = await importExcel(ORIGINAL_GRAPH, OUTPUT_EXCEL_TMP);
+    expect(report.changes).toEqual([]);
+  });
+
+  test('export and import style columns', async () => {
+    const options: ExportOptions = { styles: ['geometry', 'fill', 'arrows'] };
+    const xlsxFile = await exportExcel(ORIGINAL_GRAPH, options);
+
+    const edited = editContent(xlsxFile, rows => {
+      expect(rows[0]).toEqual(
+        expect.objectContaining({
+          x: '416.15594666666664',
+          width: '181.68810666666667',
+          fillColor: '#FFCC66',
+        })
+      );
+      expect(rows[7]).toEqual(
+        expect.objectContaining({
+          sourceArrow: 'none',
+          targetArrow: 'standard',
+        })
+      );
+      rows[0].fillColor = '#000000';
+      rows[0].width = 200;
+      rows[1].x = 'left';
+      rows[2].fillColor = 'red';
+      rows[7].targetArrow = 'delta';
+    });
+    await fs.writeFile(OUTPUT_EXCEL_TMP, edited);
+
+    const { xml, report } = await importExcel(ORIGINAL_GRAPH, OUTPUT_EXCEL_TMP);
+    expect(report.changes.map(c => [c.id, c.column, c.after])).toEqual([
+      ['n0', 'width', '200'],
+      ['n0', 'fillColor', '#000000'],
+      ['e0', 'targetArrow', 'delta'],
+    ]);
+    expect(report.skippedColumns).toEqual([
+      {
+        id: 'n1',
+        column: 'x',
+        reason: 'invalid value, expected a number',
+      },
+      {
+        id: 'n2',
+        column: 'fillColor',
+        reason: 'invalid value, expected a color #RRGGBB or #RRGGBBAA',
+      },
+    ]);
+
+    const units = getUnitsFromGraph(await parseGraphmlFormat(xml), options);
+    expect(units[0].fields.fillColor).toBe('#000000');
+    expect(units[7].fields.targetArrow).toBe('delta');
+  });
+
+  test('import report lists unknown ids and skipped columns', async () => {
+    const xlsxFile = await exportExcel(LABELS_GRAPH);
+
+    const edited = editContent(xlsxFile, rows => {
+      rows[1].label = 'Tilaus';
+      rows[1].color = '#000000';
+      rows.push({ type: 'node', id: 'n9', label: 'Poistettu' });
+    });
+    await fs.writeFile(OUTPUT_EXCEL_TMP, edited);
+
+    const { report } = await importExcel(LABELS_GRAPH, OUTPUT_EXCEL_TMP);
+    expect(report.unknownIds).toEqual(['n9']);
+    expect(report.skippedColumns).toEqual([
+      {
+        id: 'n1',
+        column: 'color',
+        reason: 'field without entry in extractedFields metadata',
+      },
+    ]);
+    expect(formatImportReport(report)).toEqual(
+      '1 units updated, 1 values changed\n' +
+        'Unknown ids (1): n9\n' +
+        'Skipped column color (field without entry in extractedFields ' +
+        'metadata): n1'
+    );
+  });
 });
@@ -2,6 +2,7 @@
 // in stack traces
 import 'source-map-support/register';
 
+import * as path from 'path';
 import { promises as fs } from 'fs';
 import Debug from 'debug';
 const debug = Debug('yedxtract');
@@ -12,15 +13,132 @@ import {
   convertToGraphmlFormat,
   updateGraph,
 } from './graphml';
-import { createXlsx, importXlsx } from './excel';
+import {
+  createBatchXlsx,
+  findGraphmlFiles,
+  getCommonDirectory,
+  importBatchXlsx,
+  resolveBatchFile,
+  toBatchFile,
+} from './batch';
+import { addSourceHashes, compareToPrevious } from './changes';
 import { readFile } from './file';
+import { getFormat, getFormatByFilename } from './formats';
+import { createGraph, parseGraphSheets } from './generate';
+import { addTranslations, applyTranslation, validateLanguage } from './labels';
+import { createImportDiff } from './diff';
+import { addOriginals, mergeUnits } from './merge';
+import {
+  addToTranslationMemory,
+  loadTranslationMemory,
+  prefillTranslations,
+  saveTranslationMemory,
+} from './memory';
+import { indexGraphmlSource, patchGraphmlSource } from './patch';
+import { checkPlaceholders, compilePlaceholders } from './placeholders';
+import { replaceUnits } from './replace';
+import { addStyleFields } from './styles';
+
+import type {
+  BatchExportOptions,
+  BatchFile,
+  ExportOptions,
+  GenerateOptions,
+  ImportDiff,
+  ImportOptions,
+  ImportReport,
+  ImportResult,
+  Metadata,
+  OutputUnit,
+  ReplaceOptions,
+  ReplaceResult,
+  ReplaceRule,
+} from './types';
 
-import type { ExportOptions, ImportOptions, Metadata } from './types';
+export { getFormatNames, registerFormat } from './formats';
+export { formatImportDiff } from './diff';
+export { loadGlossary } from './replace';
+export { DEFAULT_PLACEHOLDERS } from './placeholders';
+export { formatImportReport, getImportIssues } from './report';
 
 export async function exportExcel(
   inputGraphmlFile: string,
-  options?: ExportOptions
+  options: ExportOptions = {}
+) {
+  const formatName = options.format ?? 'xlsx';
+  const format = getFormat(formatName);
+  if (options.deduplicate && !['xlsx', 'csv'].includes(formatName))
+    throw new Error(
+      `Deduplication is supported only in xlsx and csv files, not ${formatName}`
+    );
+  if (options.trackChanges || options.previousExport) {
+    if (!['xlsx', 'csv', 'json'].includes(formatName))
+      throw new Error(
+        `Change tracking is supported only in xlsx, csv and json files, not ${formatName}`
+      );
+    if (options.deduplicate)
+      throw new Error('Change tracking is not supported with deduplication');
+  }
+  const { units, metadata } = await readGraph(inputGraphmlFile, options);
+
+  return format.create(units, metadata, options);
+}
+
+/**
+ * Export multiple graphml files to a single xlsx file. The `Files` sheet lists
+ * the files and their metadata.
+ *
+ * @param inputs - Graphml files, directories searched recursively for graphml
+ * files or patterns with `*`, `?` and `**` wildcards
+ * @param [options] - Options object for the export, see `exportExcelFile`
+ * @param [options.layout] - `sheets` (default) for a sheet per file or `combined` for all files on the Content sheet
+ * with a `file` column
+ * @param [options.baseDir] - Directory the file paths are relative to, by default the common parent directory of the
+ * files
+ * @returns Excel file
+ */
+export async function exportBatch(
+  inputs: string[],
+  options: BatchExportOptions = {}
 ) {
+  if (options.deduplicate)
+    throw new Error('Deduplication is not supported in batch exports');
+  if (options.trackChanges || options.previousExport)
+    throw new Error('Change tracking is not supported in batch exports');
+  const files = await findGraphmlFiles(inputs);
+  if (files.length === 0)
+    throw new Error(`No graphml files found in ${inputs.join(', ')}`);
+  const baseDir = options.baseDir ?? getCommonDirectory(files);
+
+  const batchFiles: BatchFile[] = [];
+  for (const file of files) {
+    const { units, metadata } = await readGraph(file, options);
+    batchFiles.push({ file: toBatchFile(baseDir, file), units, metadata });
+  }
+
+  return createBatchXlsx(batchFiles, options.layout, options.columnsToExcel);
+}
+
+/**
+ *
+ * @param inputs - Graphml files, directories or patterns, see `exportBatch`
+ * @param outputFile - Path to the output xlsx file
+ * @param [options] - Options object for the export, see `exportBatch`
+ */
+export async function exportBatchFile(
+  inputs: string[],
+  outputFile: string,
+  options?: BatchExportOptions
+) {
+  const file = await exportBatch(inputs, options);
+  debug(`Saving batch export to ${outputFile}`);
+  await fs.writeFile(outputFile, file);
+}
+
+/**
+ * Read the units of a graphml file and the metadata of the export
+ */
+async function readGraph(inputGraphmlFile: string, options: ExportOptions) {
   debug(`Exporting ${inputGraphmlFile}`);
   const filename = inputGraphmlFile.split('/').pop();
   if (filename === undefined) throw new Error('Invalid filename');
@@ -28,89 +146,733 @@ export async function exportExcel(
   const { data, hash } = await readFile(inputGraphmlFile);
   const graph = await parseGraphmlFormat(data);
 
-  const units = getUnitsFromGraph(graph, options);
+  let units = getUnitsFromGraph(graph, options);
 
   const metadata: Metadata = {
     yedFilename: filename,
     yedHash: hash,
-    extractedFields: options?.fieldsToExport ?? {},
+    extractedFields: addStyleFields(
+      options.fieldsToExport ?? {},
+      options.styles
+    ),
   };
 
-  const xlsxFile = createXlsx(units, metadata, options?.columnsToExcel);
-  return xlsxFile;
+  if (options.exportProperties)
+    metadata.extractedProperties = [
+      ...new Set(units.flatMap(unit => Object.keys(unit.properties ?? {}))),
+    ];
+
+  if (options.storeOriginals) units = addOriginals(units);
+
+  if (options.languages) {
+    units = addTranslations(units, options.languages);
+    metadata.languages = options.languages;
+
+    if (options.translationMemory)
+      units = prefillTranslations(
+        units,
+        await loadTranslationMemory(options.translationMemory)
+      );
+  }
+
+  if (options.trackChanges || options.previousExport) {
+    units = addSourceHashes(units);
+    metadata.trackChanges = true;
+  }
+  if (options.previousExport)
+    units = compareToPrevious(
+      units,
+      await readPreviousExport(options.previousExport)
+    );
+
+  if (options.deduplicate) metadata.deduplicated = true;
+  if (options.filter) metadata.filter = options.filter;
+  if (options.placeholders) {
+    compilePlaceholders(options.placeholders);
+    metadata.placeholders = options.placeholders;
+  }
+
+  return { units, metadata };
+}
+
+/**
+ * Read the units of a previous export for comparing the labels
+ *
+ * @param file - Path to an xlsx, csv or json file
+ * @returns Units of the file
+ */
+async function readPreviousExport(file: string) {
+  debug(`Comparing to the previous export ${file}`);
+  const format = getFormat(getFormatByFilename(file) ?? 'xlsx');
+  const { units } = await format.parse(await fs.readFile(file), {});
+  return units;
 }
 
 /**
  *
  * @param inputGraphmlFile - Path to the input graphml file
- * @param outputXlsxFile - Path to the output xlsx file
+ * @param outputFile - Path to the output file
  * @param [options] - Options object for the export
+ * @param [options.format] - Output format: `xlsx` (default), `csv`, `json`, `xliff` (XLIFF 1.2), `xliff2` (XLIFF 2.0),
+ * `po` (gettext PO) or a format added with `registerFormat`. CSV files contain the metadata in `#<name>,<value>` rows
+ * before the header row. JSON files contain `{ metadata, units }`. Translation formats (XLIFF and PO) contain only the
+ * labels: each label is a unit whose id is the graph id for `label` and `<id>/<column>` for the other labels. In XLIFF
+ * 2.0 the labels of a node or edge are segments of a unit whose id is the graph id. Metadata is stored in the file notes
+ * (XLIFF) or in the header entry (PO).
  * @param [options.fieldsToExport.{node|edge|common}] - The fields which are extracted from the graph for
  * nodes/edges/both (node/edge field is prioritized over common field)
- * @param {string[]} [options.fieldsToExport.{node|edge|common}.<output>] - Path to the property in the graphml file
- * which is used to create the output field. E.g., `color: ['y:Fill', '[0]', '$', 'color']` will extract the node color to
- * the output field `color`.
+ * @param {string|string[]} [options.fieldsToExport.{node|edge|common}.<output>] - Path to the property in the graphml
+ * file which is used to create the output field. E.g., `color: 'y:Fill/@color'` will extract the node color to the output
+ * field `color`. Path steps are separated by `/`: element names (`*` for any element) filtered with `[2]` (one-based),
+ * `[*]`, `[@name]` or `[@name="value"]`, and finally `@attribute` or `text()`. A path ending with an element selects
+ * its text, e.g. `y:NodeLabel[@modelName="custom"]`. The first match is exported and all matches are updated on import.
+ * An export fails if a path matches nothing in the graph. Paths can also be arrays of object keys of the parsed XML,
+ * e.g. `['y:Fill', '[0]', '$', 'color']`.
  * @param [options.columnsToExcel] - The columns which are exported to the xlsx file.
  * @param {string[]} [options.columnsToExcel.{include|exclude}] - The columns which are exported to the xlsx file. If
  * `include` property is set, only those columns are exported. If `include` is `undefined`, then all columns except
  * those in `exclude` are exported.
+ * @param [options.exportProperties] - Export user-defined properties (graphml keys with `attr.name`, e.g. url and
+ * description) to columns named after the property. Properties of the top-level graph are exported to a `graph` row.
+ * @param {string[]} [options.languages] - Target languages of the translation, e.g. `['fi', 'sv']`. An empty column is
+ * added for each label and language, e.g. `label_fi` and `label_2_fi`.
+ * @param [options.sourceLanguage] - Language of the labels in XLIFF and PO files, `en` by default
+ * @param [options.targetLanguage] - Language of the translation in XLIFF and PO files
+ * @param [options.storeOriginals] - Store the exported values to `original:<column>` columns (hidden in xlsx files).
+ * These are needed to merge the import if the graph is changed after the export, see `hashCheck` import option. XLIFF
+ * and PO files store the original labels as the source text.
+ * @param [options.deduplicate] - Collapse identical labels to one row with the columns `ids` (the labels containing the
+ * text prefixed with the type, e.g. `node:n0, node:n3/label_2`), `count`, `text` and a translation column for each
+ * language, e.g. `text_fi`. The translation is imported to every label listed in `ids`. Only in xlsx and csv files.
+ * @param [options.translationMemory] - Path to a JSON translation memory file, `{ "<language>": { "<source>":
+ * "<translation>" } }`. Empty translation columns are prefilled from it, see `translationMemory` import option.
+ * @param [options.filter] - Export only the nodes and edges matching all the given conditions. The filter is stored in
+ * the metadata and the import report tells that the export was partial. Properties of the graph are always exported.
+ * @param {string[]} [options.filter.types] - `node` and/or `edge`
+ * @param {string[]} [options.filter.unitTypes] - Realizer elements, e.g. `['y:GenericNode']`
+ * @param {string[]} [options.filter.configurations] - Values of the `configuration` attribute of the realizer, `*`
+ * matches any characters, e.g. `['com.yworks.flowchart.*']`
+ * @param [options.filter.withLabels] - Only units with at least one non-empty label
+ * @param {string[]} [options.filter.ids] - Ids of the units
+ * @param {string[]} [options.styles] - Add geometry and style columns: `geometry` (x, y, width, height of nodes),
+ * `fill` (fillColor), `border` (borderColor, borderWidth, borderType), `line` (lineColor, lineType of edges), `arrows`
+ * (sourceArrow, targetArrow) and `font` (fontSize, fontStyle, textColor of the labels). The values are verified on
+ * import: numbers, colors as `#RRGGBB` or `#RRGGBBAA` and known types. Invalid values are skipped and reported.
+ * @param {string[]} [options.placeholders] - Regular expressions of the placeholders of the labels, e.g. `<name>`,
+ * `{count}` or `%s`, see `DEFAULT_PLACEHOLDERS`. Xlsx and csv files get a `placeholders` column listing the
+ * placeholders of each unit and XLIFF files contain them as inline `<ph>` elements. The patterns are stored in the
+ * metadata and the import reports the labels whose placeholders differ from the graph.
+ * @param [options.trackChanges] - Store a hash of the labels of each unit in a `sourceHash` column (hidden in xlsx
+ * files) so that the next export can be compared to this one. Only in xlsx, csv and json files.
+ * @param [options.previousExport] - Path to a previous xlsx, csv or json export of the graph. Implies `trackChanges`.
+ * The `status` column tells whether the labels of a unit are `new`, `changed` or `unchanged` since the previous export
+ * and the `previousLabel` column contains the previous label of changed units. Units of the previous export which are
+ * no longer in the graph are added as `removed` rows, these are ignored on import. Labels of exports without change
+ * tracking are compared to their original values, if stored, or to the label columns.
+ * @param [options.workbook] - Editing aids of the Content sheet of xlsx files
+ * @param [options.workbook.protect] - Protect the sheet so that only the editable columns can be changed: the id, type,
+ * source, target, parent, unitType, placeholders and change tracking columns are locked. The editable columns are
+ * highlighted, the label columns wrapped and the header row frozen. The original labels are stored in hidden
+ * `original:<column>` columns and style columns with a fixed set of values (e.g. `borderType`) get a drop-down list.
+ * @param {Record<string, string[]>} [options.workbook.validation] - Allowed values of columns shown as drop-down lists,
+ * e.g. `{ fillColor: ['#FF0000', '#00FF00'] }`. Other values are warned about. The values must not contain commas.
  * @param [options.postProcess] - Function to post-process selected columns: Post(row: OutputUnit) => OutputUnit | null;
  */
 export async function exportExcelFile(
   inputGraphmlFile: string,
-  outputXlsxFile: string,
+  outputFile: string,
   options?: ExportOptions
 ) {
-  const xlsxFile = await exportExcel(inputGraphmlFile, options);
-  debug(`Saving export to ${outputXlsxFile}`);
-  await fs.writeFile(outputXlsxFile, xlsxFile);
+  const file = await exportExcel(inputGraphmlFile, options);
+  debug(`Saving export to ${outputFile}`);
+  await fs.writeFile(outputFile, file);
 }
 
+/**
+ * Import a file to the graph, see `importExcelFile` for the options
+ *
+ * @param inputGraphmlFile - Path to the input graphml file
+ * @param inputFile - Path to the input file
+ * @param [options] - Options object for the import
+ * @returns Updated graphml file and the report of the changes
+ */
 export async function importExcel(
   inputGraphmlFile: string,
-  inputXlsxFile: string,
+  inputFile: string,
+  options?: ImportOptions
+): Promise<ImportResult> {
+  const { data, units, metadata, graphChanged, warnings } = await readImport(
+    inputGraphmlFile,
+    inputFile,
+    options
+  );
+  const translatedUnits = selectLanguage(
+    units,
+    inputFile,
+    warnings,
+    options?.language
+  );
+  const result = await createGraphml(
+    data,
+    translatedUnits,
+    metadata,
+    graphChanged,
+    warnings,
+    options
+  );
+
+  if (options?.translationMemory)
+    await updateTranslationMemory(options.translationMemory, units);
+  return result;
+}
+
+/**
+ * Dry run of the import: update the graph without creating the graphml file
+ * and list the changes of each imported unit, see `importExcelFile` for the
+ * options
+ *
+ * @param inputGraphmlFile - Path to the input graphml file
+ * @param inputFile - Path to the input file
+ * @param [options] - Options object for the import
+ * @returns Changes of each unit and the report of the import. Use
+ *          `formatImportDiff` to print it as text, JSON or HTML.
+ */
+export async function diffExcel(
+  inputGraphmlFile: string,
+  inputFile: string,
+  options?: ImportOptions
+): Promise<ImportDiff> {
+  const { data, units, metadata, graphChanged, warnings } = await readImport(
+    inputGraphmlFile,
+    inputFile,
+    options
+  );
+  const translatedUnits = selectLanguage(
+    units,
+    inputFile,
+    warnings,
+    options?.language
+  );
+
+  const { report } = await createGraphml(
+    data,
+    translatedUnits,
+    metadata,
+    graphChanged,
+    warnings,
+    { ...options, preserveFormatting: false }
+  );
+  return createImportDiff(translatedUnits, report);
+}
+
+/**
+ * Import the translations of a file created with the `languages` export
+ * option. One graphml file is created for each language.
+ *
+ * @param inputGraphmlFile - Path to the input graphml file
+ * @param inputFile - Path to the input xlsx, csv or json file
+ * @param [languages] - Languages to import, by default all languages listed in
+ *                      the metadata
+ * @param [options] - Options object for the import, see `importExcelFile`
+ * @returns Graphml files and reports keyed by the language
+ */
+export async function importExcelLanguages(
+  inputGraphmlFile: string,
+  inputFile: string,
+  languages?: string[],
   options?: ImportOptions
 ) {
-  debug(`Importing ${inputXlsxFile}`);
+  const { data, units, metadata, graphChanged, warnings } = await readImport(
+    inputGraphmlFile,
+    inputFile,
+    options
+  );
+
+  const importedLanguages = languages ?? metadata.languages;
+  if (importedLanguages === undefined || importedLanguages.length === 0)
+    throw new Error(`No languages found in ${inputFile}`);
+  importedLanguages.forEach(validateLanguage);
+
+  const result: Record<string, ImportResult> = {};
+  for (const language of importedLanguages) {
+    debug(`Importing language ${language}`);
+    const translatedUnits = applyTranslation(units, language);
+    result[language] = await createGraphml(
+      data,
+      translatedUnits,
+      metadata,
+      graphChanged,
+      warnings,
+      options
+    );
+  }
+
+  if (options?.translationMemory)
+    await updateTranslationMemory(options.translationMemory, units);
+  return result;
+}
+
+/**
+ * Read the imported file and the original graphml file and verify that the
+ * imported file was exported from the same graphml file
+ */
+async function readImport(
+  inputGraphmlFile: string,
+  inputFile: string,
+  options: ImportOptions = {}
+) {
+  debug(`Importing ${inputFile}`);
+  const formatName = options.format ?? getFormatByFilename(inputFile) ?? 'xlsx';
+  const format = getFormat(formatName);
+
   // Read imported data
-  const xlsxData = await fs.readFile(inputXlsxFile);
-  const { units, metadata } = importXlsx(xlsxData, options);
+  const fileData = await fs.readFile(inputFile);
+  const parsed = await format.parse(fileData, options);
+  const { metadata } = parsed;
+  // Rows of the units removed before the export
+  const units = parsed.units.filter(unit => unit.status !== 'removed');
+  const warnings = parsed.warnings ?? [];
+  if (options.deleteUnits) verifyFullExport(metadata, inputFile, formatName);
 
   // Read original graph
   const { data, hash } = await readFile(inputGraphmlFile);
 
-  // Verify the original graph
-  if (hash !== metadata.yedHash)
-    console.warn(
-      'Provided graphml file not matching the one used to generate xlsx file'
+  const graphChanged = verifyHash(hash, metadata, inputFile, options);
+
+  return { data, units, metadata, graphChanged, warnings };
+}
+
+/**
+ * Verify that the original graph has not changed since the export
+ *
+ * @param hash - Hash of the original graphml file
+ * @param metadata - Metadata of the imported file
+ * @param inputFile - Name of the imported file for the error message
+ * @param [options] - Options object for the import
+ * @returns True if the graph has changed
+ */
+function verifyHash(
+  hash: string,
+  metadata: Metadata,
+  inputFile: string,
+  options: ImportOptions = {}
+) {
+  const graphChanged = hash !== metadata.yedHash;
+  if (graphChanged && options.hashCheck === 'strict')
+    throw new Error(
+      `Provided graphml file not matching the one used to generate ${inputFile}, import refused`
     );
+  return graphChanged;
+}
 
+/**
+ * Verify that the imported file contains all nodes and edges of the graph so
+ * that the units missing from it can be deleted
+ *
+ * @param metadata - Metadata of the imported file
+ * @param inputFile - Name of the imported file for the error message
+ * @param formatName - Format of the imported file
+ */
+function verifyFullExport(
+  metadata: Metadata,
+  inputFile: string,
+  formatName: string
+) {
+  // Translation files contain only the labels
+  const partial =
+    metadata.filter !== undefined ||
+    metadata.deduplicated ||
+    ['xliff', 'xliff2', 'po'].includes(formatName);
+  if (partial)
+    throw new Error(
+      `Units cannot be deleted, ${inputFile} does not contain all nodes and edges`
+    );
+}
+
+/**
+ * Add the imported translations to the translation memory file
+ *
+ * @param file - Path to the translation memory file, created if missing
+ * @param units - Imported units with translations
+ */
+async function updateTranslationMemory(file: string, units: OutputUnit[]) {
+  const memory = await loadTranslationMemory(file);
+  const count = addToTranslationMemory(memory, units);
+  debug(`Adding ${count} translations to ${file}`);
+  if (count > 0) await saveTranslationMemory(file, memory);
+}
+
+/**
+ * Use the translations of the language as the labels
+ *
+ * @param units - Imported units
+ * @param inputFile - Path to the imported file
+ * @param warnings - Warnings of the import, a missing language is added to them
+ * @param [language] - Language to import, the units are returned as they are
+ *                     if undefined
+ * @returns Units with the translated labels
+ */
+function selectLanguage(
+  units: OutputUnit[],
+  inputFile: string,
+  warnings: string[],
+  language?: string
+) {
+  if (language === undefined) return units;
+
+  if (!units.some(unit => unit.translations?.[language]))
+    warnings.push(`No translations for language ${language} in ${inputFile}`);
+
+  return applyTranslation(units, language);
+}
+
+/**
+ * Update the original graph with the imported units
+ *
+ * @param data - Contents of the original graphml file
+ * @param units - Imported units
+ * @param metadata - Metadata of the imported file
+ * @param graphChanged - The graph has changed since the export
+ * @param warnings - Warnings of reading the imported file
+ * @param [options] - Options object for the import
+ * @returns Updated graphml file and the report of the changes
+ */
+async function createGraphml(
+  data: string,
+  units: OutputUnit[],
+  metadata: Metadata,
+  graphChanged: boolean,
+  warnings: string[],
+  options?: ImportOptions
+): Promise<ImportResult> {
+  // Each call parses the original graph as updateGraph modifies it in place
   const graph = await parseGraphmlFormat(data);
+  const source = options?.preserveFormatting
+    ? indexGraphmlSource(data, graph)
+    : undefined;
+
+  let mergedUnits = units;
+  let conflicts: ImportReport['conflicts'] = [];
+  if (graphChanged && options?.hashCheck === 'merge')
+    ({ units: mergedUnits, conflicts } = mergeUnits(graph, units, metadata));
+
+  const patterns = options?.placeholders ?? metadata.placeholders;
+  const placeholderMismatches = patterns
+    ? checkPlaceholders(mergedUnits, getUnitsFromGraph(graph), patterns)
+    : [];
 
   // Update and save graph
-  const updatedGraph = updateGraph(graph, units, metadata.extractedFields);
-  const xml = convertToGraphmlFormat(updatedGraph);
-  return xml;
+  const updateReport = updateGraph(
+    graph,
+    mergedUnits,
+    metadata.extractedFields,
+    options
+  );
+  const xml = source
+    ? patchGraphmlSource(source, graph)
+    : convertToGraphmlFormat(graph);
+
+  const report: ImportReport = {
+    ...updateReport,
+    hashMismatch: graphChanged,
+    conflicts,
+    partialExport: metadata.filter !== undefined,
+    placeholderMismatches,
+    warnings,
+  };
+  return { xml, report };
 }
 
 /**
  *
  * @param inputGraphmlFile - Path to the input graphml file
- * @param inputXlsxFile - Path to the input xlsx file
+ * @param inputFile - Path to the input file
  * @param outputGraphmlFile - Path to the output graphml file
+ * @param [options.format] - Input format, by default detected from the file extension (`.xlsx`, `.csv`, `.json`,
+ * `.xlf`/`.xliff` or `.po`). The XLIFF version is detected from the file contents. Labels with an empty target and
+ * fuzzy PO translations are kept unchanged.
  * @param {string[]} [options.fieldsToImport.{include|exclude}] - The excel columns which are imported to the graphql
  * file. If `include` property is set, only those columns are imported. If `include` is `undefined`, then all columns
- * except those in `exclude` are imported. Note: Only fixed fields (source, target, label) and fields present in
- * `extractedFields` row in xlsx Metadata sheet are imported. `id` is used for matching.
+ * except those in `exclude` are imported. Note: Only fixed fields (source, target, labels), fields present in
+ * `extractedFields` row and properties present in `extractedProperties` row in xlsx Metadata sheet are imported. `id`
+ * is used for matching.
+ * @param [options.preserveFormatting] - Keep the original graphml file byte-for-byte identical except for the changed
+ * values. By default the whole file is rebuilt on a single line.
+ * @param [options.language] - Import the labels from the translation columns of the language, e.g. `label_fi`. Labels
+ * without a translation are kept unchanged.
+ * @param [options.hashCheck] - What to do if the graphml file has changed since the export: `warn` (default) imports
+ * all values and reports the mismatch, `strict` refuses the import and `merge` imports only values which have changed
+ * in the import but not in the graph. Values changed in both are kept as in the graph and reported as conflicts. Merge
+ * requires the original values, see `storeOriginals` export option.
+ * @param [options.translationMemory] - Path to a JSON translation memory file which is updated with the imported
+ * translations. The file is created if it does not exist.
+ * @param [options.createUnits] - Create the nodes and edges whose id is not in the graph. New nodes are rectangles
+ * (`y:ShapeNode`) or copies of `nodeTemplate`. Units with an id like `n0::n5` or a `parent` are created in the nested
+ * graph of the group node. Edges are created between existing or new nodes given in the `source` and `target` columns.
+ * Units which cannot be created are reported as unknown ids.
+ * @param [options.nodeTemplate] - Id of the node whose style is copied to the new nodes
+ * @param [options.edgeTemplate] - Id of the edge whose style is copied to the new edges
+ * @param [options.deleteUnits] - Delete the nodes and edges which are not in the imported file, including the contents
+ * of deleted group nodes and the edges of deleted nodes. Requires a full export in xlsx, csv or json.
+ * @param {string[]} [options.placeholders] - Regular expressions of the placeholders, by default those of the export.
+ * Imported labels and translations whose placeholders differ from the graph label are reported per id, see
+ * `placeholders` export option.
+ * @param [options.rejectSelfLoops] - Fail if an imported edge goes from a node to itself
+ * @param [options.rejectDuplicateEdges] - Fail if an imported edge has the same source and target as another edge
+ * @throws If the source or target of an edge is not a node of the updated graph or a self-loop or a duplicate edge is
+ * rejected. The error lists the row and the value of each invalid edge and no file is written.
+ * @param [options.fitLabels] - Resize the changed labels to the size of their text estimated from the font. Labels
+ * sized by their node (`autoSizePolicy`) keep the width or height of the node. Changed labels which do not fit in their
+ * node are reported as overflows.
+ * @param [options.fitNodes] - Resize the labels and enlarge the nodes around their center to fit the labels, except
+ * group nodes
  * @param [options.postProcess] - Function to post-process selected columns: Post(row: OutputUnit) => OutputUnit | null;
+ * @returns Report of the import: the number of updated units, the changed values, unknown ids, skipped columns, whether
+ * the graphml file has changed since the export, the merge conflicts, overflowing labels and whether the export was
+ * filtered. Use
+ * `formatImportReport` to print it.
  */
 export async function importExcelFile(
   inputGraphmlFile: string,
-  inputXlsxFile: string,
+  inputFile: string,
   outputGraphmlFile: string,
   options?: ImportOptions
 ) {
-  const xml = await importExcel(inputGraphmlFile, inputXlsxFile, options);
+  const { xml, report } = await importExcel(
+    inputGraphmlFile,
+    inputFile,
+    options
+  );
   debug(`Saving import to ${outputGraphmlFile}`);
   await fs.writeFile(outputGraphmlFile, xml, 'utf-8');
+  return report;
+}
+
+/**
+ *
+ * @param inputGraphmlFile - Path to the input graphml file
+ * @param inputFile - Path to the input xlsx, csv or json file
+ * @param outputGraphmlPattern - Path to the output graphml files where `{lang}` is replaced with the language code,
+ * e.g. `diagram.{lang}.graphml`
+ * @param [languages] - Languages to import, by default all languages listed in the `languages` metadata row
+ * @param [options] - Options object for the import, see `importExcelFile`
+ * @returns Paths of the output graphml files and the reports keyed by the language
+ */
+export async function importExcelLanguagesFile(
+  inputGraphmlFile: string,
+  inputFile: string,
+  outputGraphmlPattern: string,
+  languages?: string[],
+  options?: ImportOptions
+) {
+  if (!outputGraphmlPattern.includes('{lang}'))
+    throw new Error('Output filename must contain {lang}');
+
+  const results = await importExcelLanguages(
+    inputGraphmlFile,
+    inputFile,
+    languages,
+    options
+  );
+
+  const outputFiles: Record<string, { file: string; report: ImportReport }> =
+    {};
+  for (const [language, { xml, report }] of Object.entries(results)) {
+    const outputGraphmlFile = outputGraphmlPattern
+      .split('{lang}')
+      .join(language);
+    debug(`Saving import to ${outputGraphmlFile}`);
+    await fs.writeFile(outputGraphmlFile, xml, 'utf-8');
+    outputFiles[language] = { file: outputGraphmlFile, report };
+  }
+  return outputFiles;
+}
+
+/**
+ * Import a workbook created with `exportBatch`. The rows are imported to the
+ * graphml file they were exported from.
+ *
+ * @param graphmlDir - Directory of the original graphml files, the file paths of the workbook are relative to it
+ * @param inputFile - Path to the input xlsx file
+ * @param [options] - Options object for the import, see `importExcelFile`
+ * @returns Graphml files and reports keyed by the file path of the workbook
+ */
+export async function importBatch(
+  graphmlDir: string,
+  inputFile: string,
+  options?: ImportOptions
+) {
+  debug(`Importing batch ${inputFile}`);
+  const files = importBatchXlsx(await fs.readFile(inputFile), options);
+
+  const result: Record<string, ImportResult> = {};
+  for (const { file, units, metadata } of files) {
+    if (options?.deleteUnits)
+      verifyFullExport(metadata, `${inputFile} (${file})`, 'xlsx');
+    const { data, hash } = await readFile(resolveBatchFile(graphmlDir, file));
+    const graphChanged = verifyHash(
+      hash,
+      metadata,
+      `${inputFile} (${file})`,
+      options
+    );
+
+    const warnings: string[] = [];
+    const translatedUnits = selectLanguage(
+      units,
+      `${inputFile} (${file})`,
+      warnings,
+      options?.language
+    );
+    result[file] = await createGraphml(
+      data,
+      translatedUnits,
+      metadata,
+      graphChanged,
+      warnings,
+      options
+    );
+  }
+
+  if (options?.translationMemory)
+    await updateTranslationMemory(
+      options.translationMemory,
+      files.flatMap(({ units }) => units)
+    );
+  return result;
+}
+
+/**
+ *
+ * @param graphmlDir - Directory of the original graphml files
+ * @param inputFile - Path to the input xlsx file
+ * @param outputDir - Directory of the output graphml files, subdirectories are created for the file paths of the
+ * workbook
+ * @param [options] - Options object for the import, see `importExcelFile`
+ * @returns Paths of the output graphml files and the reports keyed by the file path of the workbook
+ */
+export async function importBatchFile(
+  graphmlDir: string,
+  inputFile: string,
+  outputDir: string,
+  options?: ImportOptions
+) {
+  const results = await importBatch(graphmlDir, inputFile, options);
+
+  const outputFiles: Record<string, { file: string; report: ImportReport }> =
+    {};
+  for (const [file, { xml, report }] of Object.entries(results)) {
+    const outputGraphmlFile = resolveBatchFile(outputDir, file);
+    debug(`Saving import to ${outputGraphmlFile}`);
+    await fs.mkdir(path.dirname(outputGraphmlFile), { recursive: true });
+    await fs.writeFile(outputGraphmlFile, xml, 'utf-8');
+    outputFiles[file] = { file: outputGraphmlFile, report };
+  }
+  return outputFiles;
+}
+
+/**
+ * Replace texts in the labels, fields and properties of a graph without an
+ * export and import
+ *
+ * @param inputGraphmlFile - Path to the input graphml file
+ * @param rules - Replace rules applied in order: `{ find, replace, regex?, ignoreCase?, wholeWord? }`. Regex
+ * replacements may refer to the groups, e.g. `$1`. Use `loadGlossary` to read the rules from a file.
+ * @param [options] - Options object for the replace
+ * @param [options.fieldsToExport] - User-defined fields to replace in, see `exportExcelFile`. Labels are always
+ * included.
+ * @param [options.exportProperties] - Replace also in user-defined properties
+ * @param {string[]} [options.columns.{include|exclude}] - The columns to replace in, e.g. `{ include: ['label'] }`
+ * @param [options.preserveFormatting] - Keep the original graphml file byte-for-byte identical except for the changed
+ * values
+ * @returns Updated graphml file, each replacement and the report of the changes
+ */
+export async function replaceText(
+  inputGraphmlFile: string,
+  rules: ReplaceRule[],
+  options: ReplaceOptions = {}
+): Promise<ReplaceResult> {
+  debug(`Replacing texts in ${inputGraphmlFile}`);
+  const { data } = await readFile(inputGraphmlFile);
+  const graph = await parseGraphmlFormat(data);
+  const source = options.preserveFormatting
+    ? indexGraphmlSource(data, graph)
+    : undefined;
+
+  const fieldsToExport = options.fieldsToExport ?? {};
+  const graphUnits = getUnitsFromGraph(graph, {
+    fieldsToExport,
+    exportProperties: options.exportProperties,
+  });
+  const { units, replacements } = replaceUnits(
+    graphUnits,
+    rules,
+    options.columns
+  );
+
+  const report = updateGraph(graph, units, fieldsToExport);
+  const xml = source
+    ? patchGraphmlSource(source, graph)
+    : convertToGraphmlFormat(graph);
+  return { xml, replacements, report };
+}
+
+/**
+ *
+ * @param inputGraphmlFile - Path to the input graphml file
+ * @param outputGraphmlFile - Path to the output graphml file, may be the input file
+ * @param rules - Replace rules, see `replaceText`
+ * @param [options] - Options object for the replace, see `replaceText`
+ * @returns Replacements
+ */
+export async function replaceTextFile(
+  inputGraphmlFile: string,
+  outputGraphmlFile: string,
+  rules: ReplaceRule[],
+  options?: ReplaceOptions
+) {
+  const { xml, replacements } = await replaceText(
+    inputGraphmlFile,
+    rules,
+    options
+  );
+  debug(`Saving ${replacements.length} replacements to ${outputGraphmlFile}`);
+  await fs.writeFile(outputGraphmlFile, xml, 'utf-8');
+  return replacements;
+}
+
+/**
+ * Generate a new graph of the nodes and edges listed in an xlsx file
+ *
+ * @param inputFile - Path to the xlsx file with a `Nodes` sheet (columns id, label, shape, color) and an optional
+ * `Edges` sheet (columns source, target, label, id)
+ * @param [options] - Options object for the generation
+ * @param [options.layout] - `grid` (default) or `layered` to place the nodes in layers following the edges
+ * @returns Generated graphml file
+ */
+export async function generateGraph(
+  inputFile: string,
+  options: GenerateOptions = {}
+) {
+  debug(`Generating a graph of ${inputFile}`);
+  const { nodes, edges } = parseGraphSheets(await fs.readFile(inputFile));
+  const graph = createGraph(nodes, edges, options.layout);
+  return convertToGraphmlFormat(graph);
+}
+
+/**
+ * Generate a new graph of the nodes and edges listed in an xlsx file and save it
+ *
+ * @param inputFile - Path to the xlsx file, see `generateGraph`
+ * @param outputGraphmlFile - Path to the output graphml file
+ * @param [options] - Options object for the generation, see `generateGraph`
+ */
+export async function generateGraphFile(
+  inputFile: string,
+  outputGraphmlFile: string,
+  options?: GenerateOptions
+) {
+  const xml = await generateGraph(inputFile, options);
+  debug(`Saving the generated graph to ${outputGraphmlFile}`);
+  await fs.writeFile(outputGraphmlFile, xml, 'utf-8');
 }
@@ -0,0 +1,86 @@
+import Debug from 'debug';
+const debug = Debug('yedxtract:json');
+
+import { getExportVersion, parseMetadata } from './metadata';
+import { rowsToUnits, unitsToRows } from './table';
+
+import type {
+  ImportOptions,
+  Metadata,
+  OutputUnit,
+  TableRow,
+  XlsxOptions,
+} from './types';
+
+/**
+ * Create a JSON document `{ metadata, units }` where the units are in the
+ * `OutputUnit` format. Like empty cells in xlsx files, null values are not
+ * exported and missing values are skipped on import. A null value sets an
+ * empty value on import like #NULL! in xlsx files.
+ *
+ * @param units - Units exported from the graph
+ * @param metadata - Metadata of the export
+ * @param [options] - Columns to include or exclude
+ * @returns JSON document as a string
+ */
+export function createJson(
+  units: OutputUnit[],
+  metadata: Metadata,
+  options: XlsxOptions = {}
+) {
+  debug(`Creating JSON file (${units.length} units)`);
+
+  // Columns are filtered in the same way as in the tabular formats
+  const rows = unitsToRows(units, options).map(row =>
+    Object.fromEntries(
+      Object.entries(row).filter(([, value]) => value !== null)
+    )
+  );
+  const filteredUnits = rowsToUnits(rows, metadata);
+
+  const document = {
+    metadata: { yedxtractVersion: getExportVersion(), ...metadata },
+    units: filteredUnits,
+  };
+  return JSON.stringify(document, null, 2) + '\n';
+}
+
+/**
+ * Import a JSON document created with `createJson`
+ *
+ * @param json - JSON document as a string
+ * @param [options] - Options object to define imported fields
+ * @returns List of values for nodes and edges and the metadata
+ */
+export function importJson(json: string, options: ImportOptions = {}) {
+  debug('Importing JSON file');
+
+  let document: unknown;
+  try {
+    document = JSON.parse(json);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Invalid JSON file: ${message}`);
+  }
+
+  if (typeof document !== 'object' || document === null)
+    throw new Error('Invalid JSON file, expected an object');
+
+  const { metadata: metadataValues, units } = document as Record<
+    string,
+    unknown
+  >;
+
+  const metadata =
+    typeof metadataValues === 'object' && metadataValues !== null
+      ? parseMetadata(metadataValues as Record<string, unknown>)
+      : undefined;
+  if (metadata === undefined) throw new Error('Invalid metadata in JSON file');
+
+  if (!Array.isArray(units))
+    throw new Error('Invalid JSON file, units array missing');
+
+  // Units are validated by converting them to rows like in the tabular formats
+  const rows = unitsToRows(units as OutputUnit[]) as TableRow[];
+  return { units: rowsToUnits(rows, metadata, options), metadata };
+}
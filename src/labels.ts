@@ -0,0 +1,227 @@
+import type { OutputUnit } from './types';
+
+// The first label of a unit is in the `label` column, the following labels in
+// `label_2`, `label_3` etc. Labels of the closed state of group and folder
+// nodes use the `closedLabel` prefix.
+const LABEL_COLUMN_REGEX = /^(label|closedLabel)(?:_([1-9]\d*))?$/;
+
+// Translations of the labels are in `label_<language>` columns, e.g. `label_fi`
+// or `label_2_fi`
+const LANGUAGE_REGEX = /^[A-Za-z]{2,3}(?:-[A-Za-z0-9]+)*$/;
+
+export interface LabelColumn {
+  // Zero-based index of the label element
+  index: number;
+  // Label of the closed state of a group or folder node
+  closed: boolean;
+}
+
+/**
+ * Get the column name of a label
+ *
+ * @param index - Zero-based index of the label element
+ * @param [closed] - Label of the closed state of a group or folder node
+ * @returns Column name, e.g. `label`, `label_2` or `closedLabel`
+ */
+export function labelColumn(index: number, closed = false) {
+  const prefix = closed ? 'closedLabel' : 'label';
+  return index === 0 ? prefix : `${prefix}_${index + 1}`;
+}
+
+/**
+ * Parse a label column name
+ *
+ * @param column - Column name
+ * @returns Label index and state, undefined if the column is not a label column
+ */
+export function parseLabelColumn(column: string): LabelColumn | undefined {
+  const match = LABEL_COLUMN_REGEX.exec(column);
+  if (match === null) return undefined;
+
+  // `label_1` would be a duplicate of `label`
+  if (match[2] === '1') return undefined;
+
+  const index = match[2] === undefined ? 0 : Number(match[2]) - 1;
+  return { index, closed: match[1] === 'closedLabel' };
+}
+
+/**
+ * Check whether the column is a label column other than `label` or
+ * `closedLabel`, i.e. stored in `OutputUnit.labels`
+ *
+ * @param column - Column name
+ * @returns True for the additional label columns
+ */
+export function isAdditionalLabelColumn(column: string) {
+  const parsed = parseLabelColumn(column);
+  return parsed !== undefined && parsed.index > 0;
+}
+
+/**
+ * Get all labels of the unit keyed by the column name
+ *
+ * @param unit - Output unit
+ * @returns Labels which are defined for the unit
+ */
+export function getUnitLabels(unit: OutputUnit) {
+  const labels: Record<string, string | null> = {};
+
+  if (unit.label !== undefined) labels.label = unit.label;
+  if (unit.closedLabel !== undefined) labels.closedLabel = unit.closedLabel;
+
+  return { ...labels, ...unit.labels };
+}
+
+/**
+ * Sort function for label columns: open state labels first and then by index
+ */
+export function compareLabelColumns(a: string, b: string) {
+  const parsedA = parseLabelColumn(a);
+  const parsedB = parseLabelColumn(b);
+  if (parsedA === undefined || parsedB === undefined) return 0;
+
+  return (
+    Number(parsedA.closed) - Number(parsedB.closed) ||
+    parsedA.index - parsedB.index
+  );
+}
+
+/**
+ * Set a label of the unit by the column name
+ *
+ * @param unit - Output unit, modified in place
+ * @param column - Label column name, e.g. `label` or `label_2`
+ * @param value - New label text
+ */
+export function setUnitLabel(
+  unit: OutputUnit,
+  column: string,
+  value: string | null
+) {
+  if (column === 'label') unit.label = value;
+  else if (column === 'closedLabel') unit.closedLabel = value;
+  else unit.labels = { ...unit.labels, [column]: value };
+}
+
+/**
+ * Get the column name of a label's translation
+ *
+ * @param column - Label column name
+ * @param language - Language code, e.g. `fi` or `pt-BR`
+ * @returns Column name, e.g. `label_fi` or `label_2_fi`
+ */
+export function translationColumn(column: string, language: string) {
+  return `${column}_${language}`;
+}
+
+/**
+ * Parse a translation column name. Only the exported languages are matched as
+ * user-defined fields may have names like `label_abc`.
+ *
+ * @param column - Column name
+ * @param languages - Language codes of the export
+ * @returns Label column and language code, undefined if the column is not a
+ *          translation column
+ */
+export function parseTranslationColumn(column: string, languages: string[]) {
+  for (const language of languages) {
+    const suffix = `_${language}`;
+    if (!column.endsWith(suffix)) continue;
+
+    const labelColumn = column.slice(0, -suffix.length);
+    if (parseLabelColumn(labelColumn) !== undefined)
+      return { column: labelColumn, language };
+  }
+  return undefined;
+}
+
+/**
+ * Verify that the language code can be used in the column names
+ *
+ * @param language - Language code
+ */
+export function validateLanguage(language: string) {
+  if (!LANGUAGE_REGEX.test(language))
+    throw new Error(
+      `Invalid language code "${language}", expected e.g. "fi" or "pt-BR"`
+    );
+}
+
+/**
+ * Add empty translations of all labels for the given languages
+ *
+ * @param units - Units exported from the graph
+ * @param languages - Target language codes
+ * @returns Units with the translations
+ */
+export function addTranslations(units: OutputUnit[], languages: string[]) {
+  languages.forEach(validateLanguage);
+
+  return units.map(unit => {
+    const columns = Object.keys(getUnitLabels(unit));
+    if (columns.length === 0) return unit;
+
+    const translations = Object.fromEntries(
+      languages.map(language => [
+        language,
+        {
+          ...Object.fromEntries(columns.map(column => [column, null])),
+          ...unit.translations?.[language],
+        },
+      ])
+    );
+
+    return { ...unit, translations };
+  });
+}
+
+/**
+ * Replace the labels with their translations to the given language. Labels
+ * without translation are kept unchanged.
+ *
+ * @param units - Imported units
+ * @param language - Language code
+ * @returns Units with translated labels and without translations
+ */
+export function applyTranslation(units: OutputUnit[], language: string) {
+  return units.map(({ translations, ...unit }) => {
+    const result: OutputUnit = { ...unit };
+
+    for (const [column, text] of Object.entries(
+      translations?.[language] ?? {}
+    )) {
+      // Empty cells are skipped, #NULL! sets an empty label
+      if (text === undefined) continue;
+      setUnitLabel(result, column, text);
+    }
+
+    return result;
+  });
+}
+
+/**
+ * Get the id of a label in translation files
+ *
+ * @param id - Graph id of the node or edge
+ * @param column - Label column name
+ * @returns The graph id for the `label` column, otherwise `<id>/<column>`, e.g.
+ *          `n0/label_2`
+ */
+export function translationUnitId(id: string, column: string) {
+  return column === 'label' ? id : `${id}/${column}`;
+}
+
+/**
+ * Parse the id of a label in translation files
+ *
+ * @param unitId - Id created with `translationUnitId`
+ * @returns Graph id and label column
+ */
+export function parseTranslationUnitId(unitId: string) {
+  const separator = unitId.lastIndexOf('/');
+  const column = unitId.slice(separator + 1);
+  if (separator < 0 || parseLabelColumn(column) === undefined)
+    return { id: unitId, column: 'label' };
+
+  return { id: unitId.slice(0, separator), column };
+}
@@ -0,0 +1,151 @@
+import { promises as fs } from 'fs';
+import Debug from 'debug';
+const debug = Debug('yedxtract:memory');
+
+import { getUnitLabels } from './labels';
+
+import type { OutputUnit, TranslationMemory } from './types';
+
+/**
+ * Load a translation memory file. A missing file is an empty memory.
+ *
+ * @param file - Path to the JSON file, `{ "<language>": { "<source>": "<translation>" } }`
+ * @returns Translation memory
+ */
+export async function loadTranslationMemory(
+  file: string
+): Promise<TranslationMemory> {
+  let contents: string;
+  try {
+    contents = await fs.readFile(file, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+    debug(`Translation memory ${file} not found, starting a new one`);
+    return {};
+  }
+
+  let memory: unknown;
+  try {
+    memory = JSON.parse(contents);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Invalid JSON in translation memory ${file}: ${message}`);
+  }
+
+  if (!isTranslationMemory(memory))
+    throw new Error(
+      `Invalid translation memory ${file}, expected translations keyed by the language and the source text`
+    );
+  return memory;
+}
+
+/**
+ * Save a translation memory file with the languages and texts in sorted order
+ * to keep the diffs small
+ *
+ * @param file - Path to the JSON file
+ * @param memory - Translation memory
+ */
+export async function saveTranslationMemory(
+  file: string,
+  memory: TranslationMemory
+) {
+  const sorted = Object.fromEntries(
+    Object.keys(memory)
+      .sort()
+      .map(language => [
+        language,
+        Object.fromEntries(
+          Object.entries(memory[language]).sort(([a], [b]) =>
+            a < b ? -1 : a > b ? 1 : 0
+          )
+        ),
+      ])
+  );
+  debug(`Saving translation memory ${file}`);
+  await fs.writeFile(file, JSON.stringify(sorted, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Fill the empty translations of the units from the translation memory
+ *
+ * @param units - Units with translations, see `addTranslations`
+ * @param memory - Translation memory
+ * @returns Units with the translations found in the memory
+ */
+export function prefillTranslations(
+  units: OutputUnit[],
+  memory: TranslationMemory
+) {
+  let count = 0;
+
+  const result = units.map(unit => {
+    if (unit.translations === undefined) return unit;
+
+    const labels = getUnitLabels(unit);
+    const translations = Object.fromEntries(
+      Object.entries(unit.translations).map(([language, texts]) => [
+        language,
+        Object.fromEntries(
+          Object.entries(texts).map(([column, text]) => {
+            const source = labels[column];
+            const remembered = source ? memory[language]?.[source] : undefined;
+            if (text != null || remembered === undefined) return [column, text];
+            count++;
+            return [column, remembered];
+          })
+        ),
+      ])
+    );
+
+    return { ...unit, translations };
+  });
+
+  debug(`Prefilled ${count} translations from the translation memory`);
+  return result;
+}
+
+/**
+ * Add the translations of the units to the translation memory. Existing
+ * translations of the same text are replaced.
+ *
+ * @param memory - Translation memory, modified in place
+ * @param units - Imported units with translations
+ * @returns Number of added or changed translations
+ */
+export function addToTranslationMemory(
+  memory: TranslationMemory,
+  units: OutputUnit[]
+) {
+  let count = 0;
+
+  for (const unit of units) {
+    const labels = getUnitLabels(unit);
+    for (const [language, texts] of Object.entries(unit.translations ?? {})) {
+      for (const [column, text] of Object.entries(texts)) {
+        const source = labels[column];
+        if (!source || !text) continue;
+        if (memory[language]?.[source] === text) continue;
+
+        memory[language] = { ...memory[language], [source]: text };
+        count++;
+      }
+    }
+  }
+
+  return count;
+}
+
+function isTranslationMemory(obj: unknown): obj is TranslationMemory {
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  return (
+    isObject(obj) &&
+    Object.values(obj).every(
+      texts =>
+        isObject(texts) &&
+        Object.values(texts).every(text => typeof text === 'string')
+    )
+  );
+}
@@ -0,0 +1,139 @@
+import Debug from 'debug';
+const debug = Debug('yedxtract:merge');
+
+import { TRACKING_COLUMNS } from './changes';
+import { getUnitsFromGraph } from './graphml';
+import { parseLabelColumn } from './labels';
+import {
+  originalColumn,
+  parseOriginalColumn,
+  rowsToUnits,
+  unitsToRows,
+} from './table';
+
+import type {
+  Graphml,
+  MergeConflict,
+  Metadata,
+  OutputUnit,
+  TableRow,
+} from './types';
+
+// Columns identifying the unit, these are not merged
+const KEY_COLUMNS = ['id', 'type', 'parent', 'unitType'];
+
+/**
+ * Store the current values of the units as their original values
+ *
+ * @param units - Units exported from the graph
+ * @param [labelsOnly] - Store only the labels
+ * @returns Units with the original values
+ */
+export function addOriginals(units: OutputUnit[], labelsOnly = false) {
+  const rows = unitsToRows(units);
+
+  return units.map((unit, i) => {
+    const originals: Record<string, string | null> = {};
+    for (const [column, value] of Object.entries(rows[i])) {
+      if (KEY_COLUMNS.includes(column) || value === undefined) continue;
+      if (labelsOnly && parseLabelColumn(column) === undefined) continue;
+      originals[column] = value === null ? null : String(value);
+    }
+    return { ...unit, originals };
+  });
+}
+
+/**
+ * Three-way merge of the imported units to a graph which has changed since the
+ * export. A value is imported if it was changed in the import and not in the
+ * graph. If both have changed, the value in the graph is kept and a conflict
+ * is reported. Values without a stored original are imported as they are.
+ *
+ * @param graph - Current graph
+ * @param units - Imported units with their original values
+ * @param metadata - Metadata of the imported file
+ * @returns Units with only the non-conflicting changes and the conflicts
+ */
+export function mergeUnits(
+  graph: Graphml,
+  units: OutputUnit[],
+  metadata: Metadata
+) {
+  if (!units.some(unit => unit.originals !== undefined))
+    throw new Error(
+      'Original values missing from the import, export with storeOriginals to merge'
+    );
+
+  const currentUnits = getUnitsFromGraph(graph, {
+    fieldsToExport: metadata.extractedFields,
+    exportProperties: metadata.extractedProperties !== undefined,
+  });
+  const currentRows = new Map(
+    unitsToRows(currentUnits).map(row => [row.id, row])
+  );
+
+  // The change tracking columns are not values of the graph
+  const keyColumns = metadata.trackChanges
+    ? [...KEY_COLUMNS, ...TRACKING_COLUMNS]
+    : KEY_COLUMNS;
+
+  const conflicts: MergeConflict[] = [];
+  const mergedRows = unitsToRows(units).map(row => {
+    const current = currentRows.get(row.id);
+    // Units removed from the graph are left for updateGraph to report
+    if (current === undefined) return row;
+
+    const merged: TableRow = {};
+    for (const [column, value] of Object.entries(row)) {
+      if (
+        keyColumns.includes(column) ||
+        parseOriginalColumn(column) !== undefined ||
+        value === undefined
+      ) {
+        merged[column] = value;
+        continue;
+      }
+
+      // Columns without an original value, e.g. the translations which are
+      // not in the graph, are imported as they are
+      const original = row[originalColumn(column)];
+      if (original === undefined) {
+        merged[column] = value;
+        continue;
+      }
+
+      const importedValue = toText(value);
+      const currentValue = toText(current[column]);
+
+      // Unchanged in the import, keep the possibly changed graph value
+      if (importedValue === toText(original)) continue;
+      // Changed only in the import
+      if (currentValue === toText(original)) {
+        merged[column] = value;
+        continue;
+      }
+      // Both changed in the same way
+      if (importedValue === currentValue) continue;
+
+      conflicts.push({
+        id: String(row.id),
+        column,
+        original: original === null ? null : String(original),
+        current: current[column] == null ? null : String(current[column]),
+        imported: value === null ? null : String(value),
+      });
+    }
+    return merged;
+  });
+
+  debug(`Merged ${units.length} units, ${conflicts.length} conflicts`);
+  const rowNumbers = units.map(({ row }) => row);
+  return {
+    units: rowsToUnits(mergedRows, metadata, {}, rowNumbers),
+    conflicts,
+  };
+}
+
+function toText(value: TableRow[string]) {
+  return value == null ? '' : String(value);
+}
@@ -0,0 +1,83 @@
+import { LIB_VERSION } from './version';
+
+import type { Metadata } from './types';
+
+// Metadata values which are stored as JSON
+const JSON_KEYS = [
+  'extractedFields',
+  'extractedProperties',
+  'languages',
+  'deduplicated',
+  'filter',
+  'placeholders',
+  'trackChanges',
+];
+
+/**
+ * Convert metadata to string values, e.g. for the Metadata sheet of an xlsx
+ * file or the header of a translation file
+ *
+ * @param metadata - Metadata of the export
+ * @returns String values keyed by the metadata name
+ */
+export function serializeMetadata(metadata: Metadata) {
+  const values: Record<string, string> = {
+    yedxtractVersion: getExportVersion(),
+    yedFilename: metadata.yedFilename,
+    yedHash: metadata.yedHash,
+    extractedFields: JSON.stringify(metadata.extractedFields),
+  };
+
+  if (metadata.extractedProperties)
+    values.extractedProperties = JSON.stringify(metadata.extractedProperties);
+
+  if (metadata.languages) values.languages = JSON.stringify(metadata.languages);
+
+  if (metadata.deduplicated) values.deduplicated = 'true';
+
+  if (metadata.filter) values.filter = JSON.stringify(metadata.filter);
+
+  if (metadata.placeholders)
+    values.placeholders = JSON.stringify(metadata.placeholders);
+
+  if (metadata.trackChanges) values.trackChanges = 'true';
+
+  return values;
+}
+
+/**
+ * Get the version number written to the exported files
+ */
+export function getExportVersion() {
+  // Use fixed version number for tests, otherwise would need to generate
+  // a new Excel file for every release to pass the test
+  return process.env.NODE_ENV !== 'test' ? LIB_VERSION : 'test';
+}
+
+/**
+ * Parse metadata values created with `serializeMetadata`
+ *
+ * @param values - Values keyed by the metadata name
+ * @returns Metadata, undefined if mandatory values are missing
+ */
+export function parseMetadata(values: Record<string, unknown>) {
+  const metadata: Record<string, unknown> = { ...values };
+
+  for (const key of JSON_KEYS) {
+    const value = metadata[key];
+    if (typeof value === 'string') metadata[key] = JSON.parse(value);
+  }
+
+  return instanceOfMetadata(metadata) ? metadata : undefined;
+}
+
+function instanceOfMetadata(obj: unknown): obj is Metadata {
+  if (typeof obj !== 'object' || obj === null) return false;
+  // obj is now type object
+  return (
+    'yedxtractVersion' in obj &&
+    'yedFilename' in obj &&
+    'yedHash' in obj &&
+    'extractedFields' in obj
+  );
+}
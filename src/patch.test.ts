@@ -0,0 +1,99 @@
+import { promises as fs } from 'fs';
+
+import { parseGraphmlFormat, updateGraph } from './graphml';
+import { indexGraphmlSource, patchGraphmlSource } from './patch';
+import type { Graphml } from './types';
+
+describe('patch.ts', () => {
+  let graphFile: string;
+  let graph: Graphml;
+
+  beforeEach(async () => {
+    graphFile = await fs.readFile('./data/simple.graphml', 'utf-8');
+    graph = await parseGraphmlFormat(graphFile);
+  });
+
+  const changedLines = (xml: string) => {
+    const original = graphFile.split('\r\n');
+    return xml.split('\r\n').filter((line, i) => line !== original[i]);
+  };
+
+  test('unchanged graph is identical to the original', () => {
+    const source = indexGraphmlSource(graphFile, graph);
+    expect(patchGraphmlSource(source, graph)).toEqual(graphFile);
+  });
+
+  test('only changed labels and attributes are replaced', () => {
+    const source = indexGraphmlSource(graphFile, graph);
+    updateGraph(
+      graph,
+      [
+        {
+          id: 'n1',
+          type: 'node',
+          label: 'Hei & <tervetuloa>!',
+          fields: { color: '#FFFFFF' },
+        },
+        { id: 'e2', type: 'edge', label: 'Hienoa!', fields: {} },
+      ],
+      { node: { color: ['y:Fill', '[0]', '$', 'color'] } }
+    );
+
+    const xml = patchGraphmlSource(source, graph);
+    const lines = changedLines(xml);
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toContain('<y:Fill color="#FFFFFF" color2="#00CC33"');
+    expect(lines[1]).toContain('>Hei &amp; &lt;tervetuloa&gt;!</y:NodeLabel>');
+    expect(lines[2]).toContain('>Hienoa!<y:LabelModel>');
+  });
+
+  test('attribute values are escaped in single quotes', async () => {
+    const file = graphFile.replace('color="#99FF99"', "color='#99FF99'");
+    const quoted = await parseGraphmlFormat(file);
+    const source = indexGraphmlSource(file, quoted);
+    updateGraph(
+      quoted,
+      [{ id: 'n1', type: 'node', fields: { color: '<\'&">' } }],
+      { node: { color: ['y:Fill', '[0]', '$', 'color'] } }
+    );
+
+    expect(patchGraphmlSource(source, quoted)).toContain(
+      '<y:Fill color=\'&lt;&apos;&amp;&quot;&gt;\' color2="#00CC33"'
+    );
+  });
+
+  test('data elements are inserted and filled', () => {
+    const source = indexGraphmlSource(graphFile, graph);
+    updateGraph(
+      graph,
+      [
+        {
+          id: 'G',
+          type: 'graph',
+          properties: { Description: 'Moi' },
+          fields: {},
+        },
+        { id: 'n0', type: 'node', properties: { url: 'a&b' }, fields: {} },
+      ],
+      {}
+    );
+
+    const xml = patchGraphmlSource(source, graph);
+    expect(xml).toContain(
+      '<graph edgedefault="directed" id="G">\r\n' +
+        '    <data key="d0" xml:space="preserve">Moi</data>\r\n' +
+        '    <node id="n0">\r\n' +
+        '      <data key="d4">a&amp;b</data>\r\n' +
+        '      <data key="d6">\r\n'
+    );
+  });
+
+  test('removed elements are removed with their indentation', () => {
+    const source = indexGraphmlSource(graphFile, graph);
+    graph.graphml.graph[0].edge.pop();
+
+    const xml = patchGraphmlSource(source, graph);
+    expect(xml).not.toContain('<edge id="e5"');
+    expect(xml).toContain('    </edge>\r\n  </graph>');
+  });
+});
@@ -0,0 +1,493 @@
+import { parser as saxParser } from 'sax';
+import { Builder } from 'xml2js';
+import Debug from 'debug';
+const debug = Debug('yedxtract:patch');
+
+import type { Graphml, XMLField, XMLValue } from './types';
+
+/**
+ * Element of the original graphml file with the locations of its parts
+ */
+interface SourceElement {
+  name: string;
+  // Index of `<` of the start tag
+  start: number;
+  // Index after `>` of the start tag
+  startTagEnd: number;
+  // Index of `<` of the end tag, equal to `startTagEnd` for self-closing tags
+  contentEnd: number;
+  // Index after the element
+  end: number;
+  selfClosing: boolean;
+  // Locations of the attribute names and values (without quotes)
+  attributes: Record<string, { nameStart: number; start: number; end: number }>;
+  // Locations of the direct text content including CDATA sections
+  texts: Array<{ start: number; end: number }>;
+  children: SourceElement[];
+  // Locations of the child elements, comments, CDATA sections and processing
+  // instructions, used to find the text content
+  markup: Array<{ start: number; end: number; cdata?: boolean }>;
+  // Attribute values and text of the element when the source was indexed
+  original: { attributes: Record<string, string>; text?: string };
+}
+
+/**
+ * Original graphml file and the mapping from the parsed graph's objects to
+ * the locations in the file
+ */
+export interface GraphmlSource {
+  text: string;
+  root: SourceElement;
+  elements: WeakMap<XMLField, SourceElement>;
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Index the original graphml file so that the changes made to the parsed
+ * graph can be later written back to the file without touching the rest of
+ * the file. Must be called before the graph is modified.
+ *
+ * @param text - Original graphml file as a string
+ * @param graph - Graph parsed from `text` with `parseGraphmlFormat`
+ * @returns Indexed source to be used with `patchGraphmlSource`
+ */
+export function indexGraphmlSource(
+  text: string,
+  graph: Graphml
+): GraphmlSource {
+  debug('Indexing graphml source');
+  const root = parseSourceElements(text);
+  const elements = new WeakMap<XMLField, SourceElement>();
+
+  mapElement(graph.graphml, root, elements);
+
+  return { text, root, elements };
+}
+
+/**
+ * Write the changes of the graph to the original graphml file. Only changed
+ * attribute values and texts are replaced and added or removed elements are
+ * inserted or removed, rest of the file stays byte-for-byte identical.
+ *
+ * @param source - Original graphml file indexed with `indexGraphmlSource`
+ * @param graph - Updated graph
+ * @returns Graphml XML string
+ */
+export function patchGraphmlSource(source: GraphmlSource, graph: Graphml) {
+  debug('Patching graphml source');
+  const edits: Edit[] = [];
+  const context = {
+    source,
+    edits,
+    lineBreak: source.text.includes('\r\n') ? '\r\n' : '\n',
+  };
+
+  patchElement(graph.graphml, source.root, context);
+
+  // Join the untouched parts of the file and the replacements in the order of
+  // the file, edits at the same location are in the order they were created
+  const sorted = edits
+    .map((edit, i) => ({ edit, i }))
+    .sort((a, b) => a.edit.start - b.edit.start || a.i - b.i)
+    .map(({ edit }) => edit);
+
+  const parts: string[] = [];
+  let position = 0;
+  for (const { start, end, text: replacement } of sorted) {
+    parts.push(source.text.slice(position, start), replacement);
+    position = Math.max(position, end);
+  }
+  parts.push(source.text.slice(position));
+
+  debug(`${edits.length} edits applied`);
+  return parts.join('');
+}
+
+type PatchContext = { source: GraphmlSource; edits: Edit[]; lineBreak: string };
+
+function patchElement(
+  item: XMLField | string,
+  src: SourceElement,
+  context: PatchContext
+) {
+  const { edits } = context;
+  const text = typeof item === 'string' ? item : getText(item);
+  const attributes = typeof item === 'string' ? {} : getAttributes(item);
+  const newChildren = typeof item === 'string' ? [] : getChildren(item);
+
+  // Self-closing elements which get content are serialized again as a whole
+  const addsContent =
+    (text !== undefined && text !== '') || newChildren.length > 0;
+  if (src.selfClosing && addsContent) {
+    edits.push({
+      start: src.start,
+      end: src.end,
+      text: serializeElement(src.name, item),
+    });
+    return;
+  }
+
+  patchAttributes(attributes, src, context);
+
+  if (text !== src.original.text) patchText(text ?? '', src, context);
+
+  // Match the children to the original elements
+  const visited = new Set<SourceElement>();
+  const resolved = newChildren.map(([name, child, index]) => {
+    const match =
+      typeof child === 'string'
+        ? src.children.filter(c => c.name === name)[index]
+        : context.source.elements.get(child);
+    return match && match.name === name && src.children.includes(match)
+      ? match
+      : undefined;
+  });
+
+  newChildren.forEach(([name, child], i) => {
+    const match = resolved[i];
+    if (match && !visited.has(match)) {
+      visited.add(match);
+      patchElement(child, match, context);
+      return;
+    }
+
+    insertElement(name, child, src, resolved, i, context);
+  });
+
+  for (const child of src.children)
+    if (!visited.has(child)) removeElement(child, context);
+}
+
+function patchAttributes(
+  attributes: Record<string, string>,
+  src: SourceElement,
+  { source, edits }: PatchContext
+) {
+  const original = src.original.attributes;
+
+  for (const [name, value] of Object.entries(attributes)) {
+    if (original[name] === value) continue;
+
+    const location = src.attributes[name];
+    if (location) {
+      const { start, end } = location;
+      edits.push({ start, end, text: escapeAttribute(value) });
+    } else {
+      // Add new attributes to the end of the start tag
+      const tagEnd =
+        src.startTagEnd - (source.text[src.startTagEnd - 2] === '/' ? 2 : 1);
+      edits.push({
+        start: tagEnd,
+        end: tagEnd,
+        text: ` ${name}="${escapeAttribute(value)}"`,
+      });
+    }
+  }
+
+  for (const name of Object.keys(original)) {
+    if (name in attributes) continue;
+
+    // Remove the attribute including the preceding whitespace
+    const location = src.attributes[name];
+    let start = location.nameStart;
+    while (/\s/.test(source.text[start - 1])) start--;
+    edits.push({ start, end: location.end + 1, text: '' });
+  }
+}
+
+function patchText(text: string, src: SourceElement, { edits }: PatchContext) {
+  // The parsed text is the concatenation of all text nodes, so the new text
+  // replaces the first text node and the rest are removed
+  const [first, ...rest] = src.texts;
+  if (first === undefined) {
+    edits.push({
+      start: src.startTagEnd,
+      end: src.startTagEnd,
+      text: escapeText(text),
+    });
+    return;
+  }
+
+  edits.push({ ...first, text: escapeText(text) });
+  for (const location of rest) edits.push({ ...location, text: '' });
+}
+
+function insertElement(
+  name: string,
+  item: XMLField | string,
+  parent: SourceElement,
+  resolved: Array<SourceElement | undefined>,
+  index: number,
+  { source, edits, lineBreak }: PatchContext
+) {
+  const serialized = serializeElement(name, item);
+
+  // Insert after the closest preceding original element or before the closest
+  // following one
+  const previous = resolved
+    .slice(0, index)
+    .reverse()
+    .find(e => e !== undefined);
+  const next = resolved.slice(index + 1).find(e => e !== undefined);
+
+  if (previous) {
+    const indent = getIndentation(source.text, previous.start);
+    edits.push({
+      start: previous.end,
+      end: previous.end,
+      text: indent === undefined ? serialized : lineBreak + indent + serialized,
+    });
+  } else if (next) {
+    const indent = getIndentation(source.text, next.start);
+    edits.push({
+      start: next.start,
+      end: next.start,
+      text: indent === undefined ? serialized : serialized + lineBreak + indent,
+    });
+  } else {
+    // No other children left, insert before the end tag
+    const parentIndent = getIndentation(source.text, parent.start) ?? '';
+    edits.push({
+      start: parent.contentEnd,
+      end: parent.contentEnd,
+      text: `  ${serialized}${lineBreak}${parentIndent}`,
+    });
+  }
+}
+
+function removeElement(src: SourceElement, { source, edits }: PatchContext) {
+  let start = src.start;
+
+  // Remove also the indentation and the line break before the element
+  if (getIndentation(source.text, src.start) !== undefined) {
+    start = source.text.lastIndexOf('\n', src.start - 1);
+    if (source.text[start - 1] === '\r') start--;
+  }
+
+  edits.push({ start, end: src.end, text: '' });
+}
+
+/**
+ * Get the indentation of the line if the element is the first thing on the
+ * line
+ */
+function getIndentation(text: string, position: number) {
+  const lineStart = text.lastIndexOf('\n', position - 1) + 1;
+  const indent = text.slice(lineStart, position);
+  return /^[ \t]*$/.test(indent) ? indent : undefined;
+}
+
+function getText(item: XMLField) {
+  const text = item._;
+  return typeof text === 'string' ? text : undefined;
+}
+
+function getAttributes(item: XMLField) {
+  const attributes = item.$;
+  if (attributes === undefined) return {};
+  if (typeof attributes === 'string' || Array.isArray(attributes))
+    throw new Error('Invalid attributes');
+  return attributes as Record<string, string>;
+}
+
+/**
+ * Get the child elements in the order of the parsed object
+ *
+ * @param item - Parsed element
+ * @returns Array of element name, element and index within the elements with
+ *          the same name
+ */
+function getChildren(item: XMLField) {
+  const children: Array<[string, XMLField | string, number]> = [];
+
+  for (const [name, value] of Object.entries(item)) {
+    if (name === '$' || name === '_') continue;
+    const values: XMLValue[] = Array.isArray(value) ? value : [value];
+    values.forEach((child, i) => {
+      if (Array.isArray(child)) throw new Error('Invalid child element');
+      children.push([name, child, i]);
+    });
+  }
+
+  return children;
+}
+
+function mapElement(
+  item: XMLField | string,
+  src: SourceElement,
+  elements: WeakMap<XMLField, SourceElement>
+) {
+  if (typeof item === 'string') {
+    src.original = { attributes: {}, text: item };
+    return;
+  }
+
+  src.original = {
+    attributes: { ...getAttributes(item) },
+    text: getText(item),
+  };
+  elements.set(item, src);
+
+  const childrenByName = new Map<string, SourceElement[]>();
+  for (const child of src.children)
+    childrenByName.set(child.name, [
+      ...(childrenByName.get(child.name) ?? []),
+      child,
+    ]);
+
+  for (const [name, child, i] of getChildren(item)) {
+    const childSrc = childrenByName.get(name)?.[i];
+    if (childSrc === undefined)
+      throw new Error(`Element ${name} not found from the source`);
+    mapElement(child, childSrc, elements);
+  }
+}
+
+/**
+ * Parse the locations of the elements, attributes and texts of the file
+ *
+ * @param text - XML file as a string
+ * @returns Root element
+ */
+function parseSourceElements(text: string) {
+  const parser = saxParser(true, { position: true });
+  const stack: SourceElement[] = [];
+  let root: SourceElement | undefined;
+
+  const addMarkup = (start: number, end: number, cdata?: boolean) =>
+    stack[stack.length - 1]?.markup.push({ start, end, cdata });
+
+  parser.onerror = err => {
+    throw err;
+  };
+
+  parser.onopentag = tag => {
+    const start = parser.startTagPosition - 1;
+    const startTagEnd = parser.position;
+
+    const element: SourceElement = {
+      name: tag.name,
+      start,
+      startTagEnd,
+      contentEnd: startTagEnd,
+      end: startTagEnd,
+      selfClosing: tag.isSelfClosing,
+      attributes: parseAttributeLocations(text, start, startTagEnd),
+      texts: [],
+      children: [],
+      markup: [],
+      original: { attributes: {} },
+    };
+
+    const parent = stack[stack.length - 1];
+    if (parent) parent.children.push(element);
+    else root = element;
+
+    stack.push(element);
+  };
+
+  parser.onclosetag = () => {
+    const element = stack.pop();
+    if (element === undefined) throw new Error('Unexpected end tag');
+
+    element.end = parser.position;
+    if (!element.selfClosing)
+      element.contentEnd = text.lastIndexOf('</', element.end - 1);
+
+    addMarkup(element.start, element.end);
+    element.texts = getTextLocations(element);
+  };
+
+  parser.oncomment = () =>
+    addMarkup(text.lastIndexOf('<!--', parser.position - 1), parser.position);
+
+  parser.onprocessinginstruction = () =>
+    addMarkup(text.lastIndexOf('<?', parser.position - 1), parser.position);
+
+  parser.onclosecdata = () =>
+    addMarkup(
+      text.lastIndexOf('<![CDATA[', parser.position - 1),
+      parser.position,
+      true
+    );
+
+  parser.write(text).close();
+
+  if (root === undefined) throw new Error('Root element not found');
+  return root;
+}
+
+/**
+ * Text locations are the gaps between the markup inside the element and the
+ * CDATA sections
+ */
+function getTextLocations(element: SourceElement) {
+  const texts: SourceElement['texts'] = [];
+  let position = element.startTagEnd;
+
+  for (const markup of element.markup) {
+    if (markup.start > position)
+      texts.push({ start: position, end: markup.start });
+    if (markup.cdata) texts.push({ start: markup.start, end: markup.end });
+    position = markup.end;
+  }
+
+  if (element.contentEnd > position)
+    texts.push({ start: position, end: element.contentEnd });
+
+  return texts;
+}
+
+function parseAttributeLocations(text: string, start: number, end: number) {
+  const tag = text.slice(start, end);
+  const attributes: SourceElement['attributes'] = {};
+  const regex = /([^\s=/<>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  let match;
+  while ((match = regex.exec(tag)) !== null) {
+    const value = match[2] ?? match[3];
+    const nameStart = start + match.index;
+    // Location of the value without the quotes
+    const valueStart = nameStart + match[0].length - value.length - 1;
+    attributes[match[1]] = {
+      nameStart,
+      start: valueStart,
+      end: valueStart + value.length,
+    };
+  }
+
+  return attributes;
+}
+
+function serializeElement(name: string, item: XMLField | string) {
+  const builder = new Builder({
+    headless: true,
+    renderOpts: { pretty: false },
+  });
+  return builder.buildObject({ [name]: item });
+}
+
+function escapeText(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\r/g, '&#13;');
+}
+
+function escapeAttribute(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    .replace(/\r/g, '&#13;')
+    .replace(/\n/g, '&#10;')
+    .replace(/\t/g, '&#9;');
+}
@@ -0,0 +1,56 @@
+import { parseFieldPath, readFieldPath, writeFieldPath } from './path';
+import type { XMLField } from './types';
+
+describe('path.ts', () => {
+  test('parse a path with predicates', () => {
+    expect(
+      parseFieldPath("y:NodeLabel[@modelName='custom'][2]/text()")
+    ).toEqual([
+      {
+        type: 'element',
+        name: 'y:NodeLabel',
+        predicates: [
+          { type: 'attribute', name: 'modelName', value: 'custom' },
+          { type: 'index', index: 1 },
+        ],
+      },
+      { type: 'text' },
+    ]);
+  });
+
+  test.each([
+    ['y:Fill/', 'element name expected at position 8'],
+    ['y:Fill[0]', 'indexes start from 1 at position 8'],
+    ['y:Fill[@color="#FFF]', 'closing quote missing at position 15'],
+    [
+      '@color/y:Fill',
+      'attribute or text() must be the last step at position 8',
+    ],
+    ['y:Fill @color', 'unexpected " " at position 7'],
+  ])('invalid path %s', (path, message) => {
+    expect(() => parseFieldPath(path)).toThrow(
+      `Invalid field path "${path}": ${message}`
+    );
+  });
+
+  test('read and write text-only and attribute elements', () => {
+    const elements: XMLField = {
+      'y:NodeLabel': ['First', { _: 'Second', $: { modelName: 'custom' } }],
+    };
+
+    expect(readFieldPath(elements, 'y:NodeLabel')).toEqual(['First', 'Second']);
+    expect(readFieldPath(elements, 'y:NodeLabel/@modelName')).toEqual([
+      'custom',
+    ]);
+
+    expect(writeFieldPath(elements, 'y:NodeLabel[*]/@visible', 'true')).toBe(2);
+    expect(writeFieldPath(elements, 'y:NodeLabel[1]', 'Eka')).toBe(1);
+    expect(writeFieldPath(elements, 'y:Fill/@color', '#FFF')).toBe(0);
+    expect(elements).toEqual({
+      'y:NodeLabel': [
+        { _: 'Eka', $: { visible: 'true' } },
+        { _: 'Second', $: { modelName: 'custom', visible: 'true' } },
+      ],
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import type {
+  FieldPathPredicate,
+  FieldPathStep,
+  XMLField,
+  XMLValue,
+} from './types';
+
+/**
+ * Element matched by a field path with its location so that a text-only
+ * element (a string in the parsed graph) can be replaced
+ */
+interface PathMatch {
+  value: string | XMLField;
+  parent: Array<string | XMLField>;
+  index: number;
+}
+
+// Element and attribute names, `*` matches any element
+const NAME = /[A-Za-z_][\w.:-]*|\*/y;
+const INDEX = /\d+/y;
+
+const parsedPaths = new Map<string, FieldPathStep[]>();
+
+/**
+ * Parse a field path. Steps are separated by `/`:
+ *
+ * - `y:Fill` selects the child elements, `*` any child elements
+ * - `[2]` (one-based), `[*]`, `[@name]` and `[@name="value"]` filter the
+ *   selected elements, e.g. `y:NodeLabel[@modelName="custom"]`
+ * - `@color` selects an attribute and `text()` the text, one of them may be
+ *   the last step. A path ending with an element selects its text.
+ *
+ * @param path - Field path, e.g. `y:Fill/@color` or `y:NodeLabel[*]/text()`
+ * @returns Steps of the path
+ */
+export function parseFieldPath(path: string) {
+  const parsed = parsedPaths.get(path);
+  if (parsed) return parsed;
+
+  const steps: FieldPathStep[] = [];
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(
+      `Invalid field path "${path}": ${message} at position ${pos + 1}`
+    );
+  };
+
+  const readName = (expected: string) => {
+    NAME.lastIndex = pos;
+    const name = NAME.exec(path)?.[0];
+    if (name === undefined) return fail(`${expected} expected`);
+    pos += name.length;
+    return name;
+  };
+
+  const readAttributeName = () => {
+    if (path[pos] === '*') fail('wildcard attributes are not supported');
+    return readName('attribute name');
+  };
+
+  const readValue = () => {
+    const quote = path[pos];
+    if (quote !== '"' && quote !== "'") return fail('quoted value expected');
+    const end = path.indexOf(quote, pos + 1);
+    if (end < 0) return fail('closing quote missing');
+    const value = path.slice(pos + 1, end);
+    pos = end + 1;
+    return value;
+  };
+
+  const readPredicate = () => {
+    pos++;
+    let predicate: FieldPathPredicate;
+    if (path[pos] === '*') {
+      pos++;
+      predicate = { type: 'any' };
+    } else if (path[pos] === '@') {
+      pos++;
+      predicate = { type: 'attribute', name: readAttributeName() };
+      if (path[pos] === '=') {
+        pos++;
+        predicate.value = readValue();
+      }
+    } else {
+      INDEX.lastIndex = pos;
+      const index = INDEX.exec(path)?.[0];
+      if (index === undefined) return fail('index, * or @attribute expected');
+      if (Number(index) < 1) fail('indexes start from 1');
+      pos += index.length;
+      predicate = { type: 'index', index: Number(index) - 1 };
+    }
+    if (path[pos] !== ']') fail('"]" expected');
+    pos++;
+    return predicate;
+  };
+
+  do {
+    if (steps.length > 0) pos++;
+    if (steps.some(step => step.type !== 'element'))
+      fail('attribute or text() must be the last step');
+
+    if (path.startsWith('text()', pos)) {
+      pos += 'text()'.length;
+      steps.push({ type: 'text' });
+    } else if (path[pos] === '@') {
+      pos++;
+      steps.push({ type: 'attribute', name: readAttributeName() });
+    } else {
+      const name = readName('element name');
+      const predicates: FieldPathPredicate[] = [];
+      while (path[pos] === '[') predicates.push(readPredicate());
+      steps.push({ type: 'element', name, predicates });
+    }
+  } while (path[pos] === '/');
+
+  if (pos < path.length) fail(`unexpected "${path[pos]}"`);
+
+  parsedPaths.set(path, steps);
+  return steps;
+}
+
+/**
+ * Read the values matched by a field path
+ *
+ * @param elements - Node or edge element the path is relative to
+ * @param path - Field path, see `parseFieldPath`
+ * @returns Values of the matched attributes or texts in document order, null
+ *          for matched elements without text. Empty if the path matches
+ *          nothing.
+ */
+export function readFieldPath(elements: XMLField, path: string) {
+  const steps = parseFieldPath(path);
+  const last = steps[steps.length - 1];
+
+  return selectElements(elements, steps).flatMap(({ value }) => {
+    if (last.type !== 'attribute') return [getText(value)];
+    const attribute = getAttribute(value, last.name);
+    return attribute === undefined ? [] : [attribute];
+  });
+}
+
+/**
+ * Set the attributes or texts matched by a field path. Missing attributes of
+ * the matched elements are added.
+ *
+ * @param elements - Node or edge element the path is relative to
+ * @param path - Field path, see `parseFieldPath`
+ * @param value - New value
+ * @returns Number of updated elements, zero if the path matches nothing
+ */
+export function writeFieldPath(
+  elements: XMLField,
+  path: string,
+  value: string
+) {
+  const steps = parseFieldPath(path);
+  const last = steps[steps.length - 1];
+  const matches = selectElements(elements, steps);
+
+  for (const match of matches) {
+    if (last.type === 'attribute') {
+      let element = match.value;
+      if (typeof element === 'string') {
+        element = element === '' ? {} : { _: element };
+        match.parent[match.index] = element;
+      }
+      if (!isXMLField(element.$)) element.$ = {};
+      (element.$ as XMLField)[last.name] = value;
+    } else if (typeof match.value === 'string') {
+      match.parent[match.index] = value;
+    } else {
+      match.value._ = value;
+    }
+  }
+
+  return matches.length;
+}
+
+/**
+ * Select the elements of the element steps of the path
+ */
+function selectElements(elements: XMLField, steps: FieldPathStep[]) {
+  let matches: PathMatch[] = [
+    { value: elements, parent: [elements], index: 0 },
+  ];
+
+  for (const step of steps) {
+    if (step.type !== 'element') break;
+    matches = matches.flatMap(({ value }) => {
+      if (typeof value === 'string') return [];
+
+      const names =
+        step.name === '*'
+          ? Object.keys(value).filter(key => key !== '$' && key !== '_')
+          : [step.name];
+      const children = names.flatMap(name => {
+        const parent = value[name];
+        if (!Array.isArray(parent)) return [];
+        return parent.map((child, index) => ({ value: child, parent, index }));
+      });
+
+      return step.predicates.reduce(filterElements, children);
+    });
+  }
+
+  return matches;
+}
+
+function filterElements(matches: PathMatch[], predicate: FieldPathPredicate) {
+  switch (predicate.type) {
+    case 'any':
+      return matches;
+    case 'index':
+      return matches.slice(predicate.index, predicate.index + 1);
+    case 'attribute':
+      return matches.filter(({ value }) => {
+        const attribute = getAttribute(value, predicate.name);
+        return predicate.value === undefined
+          ? attribute !== undefined
+          : attribute === predicate.value;
+      });
+  }
+}
+
+function getAttribute(element: string | XMLField, name: string) {
+  if (typeof element === 'string' || !isXMLField(element.$)) return undefined;
+  const attribute = element.$[name];
+  return typeof attribute === 'string' ? attribute : undefined;
+}
+
+function getText(element: string | XMLField) {
+  if (typeof element === 'string') return element;
+  return typeof element._ === 'string' ? element._ : null;
+}
+
+function isXMLField(value: XMLValue | undefined): value is XMLField {
+  return typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,134 @@
+import Debug from 'debug';
+const debug = Debug('yedxtract:placeholders');
+
+import { getUnitLabels, translationColumn } from './labels';
+
+import type { OutputUnit, PlaceholderMismatch } from './types';
+
+// Column of the table exports listing the placeholders of the labels
+export const PLACEHOLDERS_COLUMN = 'placeholders';
+
+// Tokens like `<name>`, `{count}` and printf-style `%s` or `%1$d`, also the
+// placeholders of HTML labels (`{1}`, `{/1}`)
+export const DEFAULT_PLACEHOLDERS = [
+  '<[^<>\\s]+>',
+  '\\{[^{}\\s]+\\}',
+  '%(?:\\d+\\$)?[-+ 0#]*\\d*(?:\\.\\d+)?[sdifuxXeEgGc]',
+];
+
+/**
+ * Combine the placeholder patterns to one regular expression
+ *
+ * @param patterns - Regular expressions of the placeholders
+ * @returns Global regular expression matching any of the patterns
+ */
+export function compilePlaceholders(patterns: string[]) {
+  for (const pattern of patterns)
+    try {
+      new RegExp(pattern);
+    } catch (err) {
+      throw new Error(
+        `Invalid placeholder pattern "${pattern}": ${(err as Error).message}`
+      );
+    }
+
+  return new RegExp(patterns.map(pattern => `(?:${pattern})`).join('|'), 'g');
+}
+
+/**
+ * Find the placeholders of a text
+ *
+ * @param text - Label text
+ * @param regex - Regular expression of `compilePlaceholders`
+ * @returns Placeholders in the order of the text
+ */
+export function findPlaceholders(text: string, regex: RegExp) {
+  return [...text.matchAll(regex)]
+    .map(([placeholder]) => placeholder)
+    .filter(placeholder => placeholder !== '');
+}
+
+/**
+ * List the distinct placeholders of all labels of a unit for the placeholders
+ * column
+ *
+ * @param unit - Unit exported from the graph
+ * @param regex - Regular expression of `compilePlaceholders`
+ * @returns Placeholders separated by spaces, undefined if there are none
+ */
+export function listUnitPlaceholders(unit: OutputUnit, regex: RegExp) {
+  const placeholders = Object.values(getUnitLabels(unit)).flatMap(label =>
+    label ? findPlaceholders(label, regex) : []
+  );
+  return placeholders.length > 0
+    ? [...new Set(placeholders)].join(' ')
+    : undefined;
+}
+
+/**
+ * Compare the placeholders of the imported labels and translations to the
+ * labels of the graph. Empty values are not checked.
+ *
+ * @param units - Imported units
+ * @param graphUnits - Units of the original graph
+ * @param patterns - Regular expressions of the placeholders
+ * @returns Labels whose placeholders differ from the graph
+ */
+export function checkPlaceholders(
+  units: OutputUnit[],
+  graphUnits: OutputUnit[],
+  patterns: string[]
+) {
+  const regex = compilePlaceholders(patterns);
+  const graphLabels = new Map(
+    graphUnits.map(unit => [unit.id, getUnitLabels(unit)])
+  );
+
+  const mismatches: PlaceholderMismatch[] = [];
+  for (const unit of units) {
+    const sources = graphLabels.get(unit.id);
+    if (sources === undefined) continue;
+
+    const values = [
+      ...Object.entries(getUnitLabels(unit)),
+      ...Object.entries(unit.translations ?? {}).flatMap(([language, labels]) =>
+        Object.entries(labels).map(
+          ([column, text]) =>
+            [translationColumn(column, language), text, column] as const
+        )
+      ),
+    ];
+
+    for (const [column, text, sourceColumn = column] of values) {
+      const source = sources[sourceColumn];
+      if (!text || !source) continue;
+
+      const missing = subtract(
+        findPlaceholders(source, regex),
+        findPlaceholders(text, regex)
+      );
+      const extra = subtract(
+        findPlaceholders(text, regex),
+        findPlaceholders(source, regex)
+      );
+      if (missing.length > 0 || extra.length > 0)
+        mismatches.push({ id: unit.id, column, missing, extra });
+    }
+  }
+
+  debug(`${mismatches.length} labels with changed placeholders`);
+  return mismatches;
+}
+
+/**
+ * Remove the items of `b` from `a`, each item once
+ */
+function subtract(a: string[], b: string[]) {
+  const rest = [...b];
+  return a.filter(item => {
+    const index = rest.indexOf(item);
+    if (index < 0) return true;
+    rest.splice(index, 1);
+    return false;
+  });
+}
@@ -0,0 +1,232 @@
+import Debug from 'debug';
+const debug = Debug('yedxtract:po');
+
+import { parseMetadata, serializeMetadata } from './metadata';
+
+import type { TranslationDocument, TranslationEntry } from './types';
+
+// Metadata values are stored in the header entry prefixed with this
+const METADATA_HEADER_PREFIX = 'X-Yedxtract-';
+
+interface PoMessage {
+  msgctxt?: string;
+  msgid?: string;
+  msgstr?: string;
+  flags: string[];
+  comments: string[];
+  obsolete: boolean;
+}
+
+type PoKeyword = 'msgctxt' | 'msgid' | 'msgstr';
+
+/**
+ * Create a gettext PO file of the labels. The unit id is stored in `msgctxt`
+ * and metadata in the header entry.
+ *
+ * @param document - Labels and metadata of the export
+ * @returns PO file as a string
+ */
+export function createPo(document: TranslationDocument) {
+  const { metadata, sourceLanguage, targetLanguage, entries } = document;
+  debug(`Creating PO file (${entries.length} messages)`);
+
+  const headers: Record<string, string> = {
+    'Project-Id-Version': metadata.yedFilename,
+  };
+  if (targetLanguage) headers.Language = targetLanguage;
+  headers['MIME-Version'] = '1.0';
+  headers['Content-Type'] = 'text/plain; charset=UTF-8';
+  headers['Content-Transfer-Encoding'] = '8bit';
+  headers['X-Source-Language'] = sourceLanguage ?? 'en';
+  for (const [name, value] of Object.entries(serializeMetadata(metadata)))
+    headers[METADATA_HEADER_PREFIX + name] = value;
+
+  const header = Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}\n`)
+    .join('');
+
+  const messages = [
+    `# Translation of ${metadata.yedFilename}`,
+    formatString('msgid', '') + '\n' + formatString('msgstr', header),
+    ...entries.map(entry => formatEntry(entry)),
+  ];
+  return messages.join('\n\n') + '\n';
+}
+
+/**
+ * Parse a gettext PO file created with `createPo`. Fuzzy translations are
+ * handled as untranslated. Messages without a context are skipped and listed
+ * in the warnings.
+ *
+ * @param poFile - PO file as a string
+ * @returns Labels and metadata of the file
+ */
+export function importPo(poFile: string): TranslationDocument {
+  debug('Parsing PO file');
+  const messages = parseMessages(poFile).filter(m => !m.obsolete);
+
+  const headerMessage = messages.find(
+    m => m.msgid === '' && m.msgctxt === undefined
+  );
+  const headers = parseHeader(headerMessage?.msgstr ?? '');
+
+  const metadataValues = Object.fromEntries(
+    Object.entries(headers)
+      .filter(([name]) => name.startsWith(METADATA_HEADER_PREFIX))
+      .map(([name, value]) => [
+        name.slice(METADATA_HEADER_PREFIX.length),
+        value,
+      ])
+  );
+  const metadata = parseMetadata(metadataValues);
+  if (metadata === undefined)
+    throw new Error('Metadata headers missing from the PO file');
+
+  const entries: TranslationEntry[] = [];
+  const warnings: string[] = [];
+  for (const message of messages) {
+    if (message === headerMessage) continue;
+
+    if (message.msgctxt === undefined) {
+      warnings.push(
+        `Message without context, skipped (msgid=${message.msgid ?? ''})`
+      );
+      continue;
+    }
+
+    const fuzzy = message.flags.includes('fuzzy');
+    entries.push({
+      id: message.msgctxt,
+      source: message.msgid ?? '',
+      target: fuzzy ? undefined : message.msgstr,
+      note:
+        message.comments.length > 0 ? message.comments.join('\n') : undefined,
+    });
+  }
+
+  return {
+    metadata,
+    sourceLanguage: headers['X-Source-Language'],
+    targetLanguage: headers.Language,
+    entries,
+    warnings,
+  };
+}
+
+function formatEntry(entry: TranslationEntry) {
+  const lines: string[] = [];
+  if (entry.note !== undefined)
+    lines.push(...entry.note.split('\n').map(line => `#. ${line}`));
+  lines.push(formatString('msgctxt', entry.id));
+  lines.push(formatString('msgid', entry.source));
+  lines.push(formatString('msgstr', entry.target ?? ''));
+  return lines.join('\n');
+}
+
+function formatString(keyword: string, value: string) {
+  // Multi-line strings are split after each line break
+  const parts = value.match(/[^\n]*\n|[^\n]+$/g) ?? [''];
+  if (parts.length === 1) return `${keyword} ${quote(parts[0])}`;
+  return [`${keyword} ""`, ...parts.map(quote)].join('\n');
+}
+
+function quote(value: string) {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+  return `"${escaped}"`;
+}
+
+function unquote(value: string) {
+  const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t' };
+  return value
+    .slice(1, -1)
+    .replace(/\\(.)/g, (match, char: string) => escapes[char] ?? char);
+}
+
+function parseMessages(poFile: string) {
+  const messages: PoMessage[] = [];
+  const newMessage = (): PoMessage => ({
+    flags: [],
+    comments: [],
+    obsolete: false,
+  });
+
+  let message = newMessage();
+  let keyword: PoKeyword | undefined;
+
+  const finishMessage = () => {
+    if (message.msgid !== undefined || message.obsolete) messages.push(message);
+    message = newMessage();
+    keyword = undefined;
+  };
+
+  const lines = poFile.replace(/^\uFEFF/, '').split(/\r?\n/);
+  lines.forEach((rawLine, i) => {
+    const line = rawLine.trim();
+
+    if (line === '') {
+      finishMessage();
+      return;
+    }
+
+    if (line.startsWith('#')) {
+      // A comment after msgstr starts the next message
+      if (message.msgstr !== undefined) finishMessage();
+
+      if (line.startsWith('#~')) message.obsolete = true;
+      else if (line.startsWith('#,'))
+        message.flags.push(
+          ...line
+            .slice(2)
+            .split(',')
+            .map(f => f.trim())
+        );
+      else if (line.startsWith('#.'))
+        message.comments.push(line.slice(2).trim());
+      return;
+    }
+
+    const match =
+      /^(msgctxt|msgid_plural|msgid|msgstr(?:\[(\d+)\])?)\s+(".*")$/.exec(line);
+    if (match) {
+      const [, name, pluralIndex, value] = match;
+      // Plural forms are not used, only the first one is read
+      if (name === 'msgid_plural' || (pluralIndex ?? '0') !== '0') {
+        keyword = undefined;
+        return;
+      }
+
+      const newKeyword = name.replace(/\[\d+\]$/, '') as PoKeyword;
+      if (message.msgstr !== undefined && newKeyword !== 'msgstr')
+        finishMessage();
+
+      keyword = newKeyword;
+      message[keyword] = unquote(value);
+      return;
+    }
+
+    if (/^".*"$/.test(line)) {
+      if (keyword !== undefined) message[keyword] += unquote(line);
+      return;
+    }
+
+    throw new Error(`Invalid PO file, unexpected content on line ${i + 1}`);
+  });
+  finishMessage();
+
+  return messages;
+}
+
+function parseHeader(header: string) {
+  const headers: Record<string, string> = {};
+  for (const line of header.split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator < 1) continue;
+    headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+  }
+  return headers;
+}
@@ -0,0 +1,85 @@
+import { promises as fs } from 'fs';
+
+import { replaceText } from '.';
+import { parseGraphmlFormat, getUnitsFromGraph } from './graphml';
+import { loadGlossary, replaceUnits } from './replace';
+import type { OutputUnit } from './types';
+
+const ORIGINAL_GRAPH = __dirname + '/../data/simple.graphml';
+const OUTPUT_GLOSSARY = __dirname + '/../data/output.glossary.csv';
+
+describe('replace.ts', () => {
+  const units: OutputUnit[] = [
+    {
+      id: 'n0',
+      type: 'node',
+      label: 'Order and reorder',
+      labels: { label_2: 'order: Order' },
+      fields: { note: 'Väri order' },
+    },
+    { id: 'n1', type: 'node', label: 'Customer', fields: {} },
+  ];
+
+  test('literal, whole word and regex rules are applied in order', () => {
+    const { units: changed, replacements } = replaceUnits(units, [
+      { find: 'order', replace: 'tilaus', wholeWord: true, ignoreCase: true },
+      { find: '(\\w+): (\\w+)', replace: '$2 ($1)', regex: true },
+      { find: 'Väri', replace: '$1' },
+    ]);
+
+    expect(changed).toEqual([
+      {
+        id: 'n0',
+        type: 'node',
+        label: 'tilaus and reorder',
+        labels: { label_2: 'tilaus (tilaus)' },
+        fields: { note: '$1 tilaus' },
+      },
+    ]);
+    expect(replacements.map(r => [r.column, r.rule, r.count])).toEqual([
+      ['label', 'order', 1],
+      ['label_2', 'order', 2],
+      ['label_2', '(\\w+): (\\w+)', 1],
+      ['note', 'order', 1],
+      ['note', 'Väri', 1],
+    ]);
+  });
+
+  test('columns are filtered', () => {
+    const { units: changed } = replaceUnits(
+      units,
+      [{ find: 'order', replace: 'tilaus' }],
+      { include: ['note'] }
+    );
+    expect(changed).toEqual([
+      { id: 'n0', type: 'node', fields: { note: 'Väri tilaus' } },
+    ]);
+  });
+
+  test('replace in a graphml file with a glossary', async () => {
+    await fs.writeFile(OUTPUT_GLOSSARY, 'find,replace\r\nworld,maailma\r\n');
+    const rules = await loadGlossary(OUTPUT_GLOSSARY);
+    expect(rules).toEqual([
+      { find: 'world', replace: 'maailma', wholeWord: true },
+    ]);
+
+    const { xml, replacements, report } = await replaceText(
+      ORIGINAL_GRAPH,
+      rules
+    );
+    expect(replacements).toEqual([
+      {
+        id: 'n1',
+        column: 'label',
+        rule: 'world',
+        count: 1,
+        before: 'Hello world!',
+        after: 'Hello maailma!',
+      },
+    ]);
+    expect(report.updated).toBe(1);
+
+    const graphUnits = getUnitsFromGraph(await parseGraphmlFormat(xml));
+    expect(graphUnits[1].label).toBe('Hello maailma!');
+  });
+});
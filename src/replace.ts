@@ -0,0 +1,177 @@
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import Debug from 'debug';
+const debug = Debug('yedxtract:replace');
+
+import { parseCsv } from './csv';
+import { getUnitLabels, setUnitLabel } from './labels';
+import { filterProperties } from './table';
+
+import type {
+  OutputUnit,
+  ReplaceRule,
+  Replacement,
+  XlsxOptions,
+} from './types';
+
+const WORD_CHAR = '[\\p{L}\\p{N}_]';
+
+/**
+ * Apply the replace rules to the labels, fields and properties of the units.
+ * The rules are applied in order, so a rule sees the result of the previous
+ * rules.
+ *
+ * @param units - Units from the graph
+ * @param rules - Replace rules
+ * @param [columns] - Columns to replace in, by default all
+ * @returns Units with only the changed values and the replacements
+ */
+export function replaceUnits(
+  units: OutputUnit[],
+  rules: ReplaceRule[],
+  columns: XlsxOptions = {}
+) {
+  const patterns = rules.map(rule => [rule, compileRule(rule)] as const);
+
+  const replacements: Replacement[] = [];
+  const changedUnits: OutputUnit[] = [];
+
+  for (const unit of units) {
+    const changed: OutputUnit = { id: unit.id, type: unit.type, fields: {} };
+    let isChanged = false;
+
+    const replace = (column: string, value: string | null | undefined) => {
+      if (typeof value !== 'string') return undefined;
+      if (filterProperties([column], columns).length === 0) return undefined;
+
+      let text = value;
+      for (const [rule, pattern] of patterns) {
+        const count = text.match(pattern)?.length ?? 0;
+        if (count === 0) continue;
+
+        // Literal replacements are not expanded, e.g. `$1` is kept as is
+        const after = rule.regex
+          ? text.replace(pattern, rule.replace)
+          : text.replace(pattern, () => rule.replace);
+
+        replacements.push({
+          id: unit.id,
+          column,
+          rule: rule.find,
+          count,
+          before: text,
+          after,
+        });
+        text = after;
+      }
+
+      if (text === value) return undefined;
+      isChanged = true;
+      return text;
+    };
+
+    for (const [column, label] of Object.entries(getUnitLabels(unit))) {
+      const text = replace(column, label);
+      if (text !== undefined) setUnitLabel(changed, column, text);
+    }
+
+    for (const [field, value] of Object.entries(unit.fields)) {
+      const text = replace(field, value);
+      if (text !== undefined) changed.fields[field] = text;
+    }
+
+    for (const [name, value] of Object.entries(unit.properties ?? {})) {
+      const text = replace(name, value);
+      if (text !== undefined)
+        changed.properties = { ...changed.properties, [name]: text };
+    }
+
+    if (isChanged) changedUnits.push(changed);
+  }
+
+  debug(`${replacements.length} replacements in ${changedUnits.length} units`);
+  return { units: changedUnits, replacements };
+}
+
+/**
+ * Load replace rules from a glossary file. JSON files contain either an array
+ * of rules or an object mapping the terms to their replacements. CSV files
+ * contain the term and the replacement on each row, an optional header row is
+ * `find,replace`.
+ *
+ * @param file - Path to the glossary file
+ * @returns Literal whole-word rules for the terms, or the rules of the file
+ */
+export async function loadGlossary(file: string): Promise<ReplaceRule[]> {
+  debug(`Loading glossary ${file}`);
+  const contents = await fs.readFile(file, 'utf-8');
+
+  if (path.extname(file).toLowerCase() === '.json') {
+    let glossary: unknown;
+    try {
+      glossary = JSON.parse(contents);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      throw new Error(`Invalid JSON in glossary ${file}: ${message}`);
+    }
+
+    if (Array.isArray(glossary)) {
+      if (!glossary.every(isReplaceRule))
+        throw new Error(
+          `Invalid rule in glossary ${file}, expected { find, replace }`
+        );
+      return glossary;
+    }
+
+    if (typeof glossary === 'object' && glossary !== null)
+      return Object.entries(glossary).map(([find, replace]) => {
+        if (typeof replace !== 'string')
+          throw new Error(
+            `Invalid replacement for ${find} in glossary ${file}`
+          );
+        return { find, replace, wholeWord: true };
+      });
+
+    throw new Error(`Glossary ${file} must contain an array or an object`);
+  }
+
+  const records = parseCsv(contents);
+  if (records[0]?.[0] === 'find' && records[0]?.[1] === 'replace')
+    records.shift();
+
+  return records.map(([find, replace], i) => {
+    if (replace === undefined)
+      throw new Error(
+        `Replacement missing on row ${i + 1} of glossary ${file}`
+      );
+    return { find, replace, wholeWord: true };
+  });
+}
+
+/**
+ * Compile a rule to a global regular expression
+ */
+function compileRule(rule: ReplaceRule) {
+  if (rule.find === '') throw new Error('Empty text to find in replace rule');
+
+  let source = rule.regex ? rule.find : escapeRegExp(rule.find);
+  // Unicode-aware alternative to \b, which treats e.g. ä as a word boundary
+  if (rule.wholeWord) source = `(?<!${WORD_CHAR})(?:${source})(?!${WORD_CHAR})`;
+
+  try {
+    return new RegExp(source, rule.ignoreCase ? 'giu' : 'gu');
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Invalid regular expression ${rule.find}: ${message}`);
+  }
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function isReplaceRule(obj: unknown): obj is ReplaceRule {
+  if (typeof obj !== 'object' || obj === null) return false;
+  const { find, replace } = obj as Record<string, unknown>;
+  return typeof find === 'string' && typeof replace === 'string';
+}
@@ -0,0 +1,103 @@
+import type { ImportIssue, ImportReport } from './types';
+
+export const IMPORT_ISSUES: ImportIssue[] = [
+  'unknown-ids',
+  'skipped-columns',
+  'hash-mismatch',
+  'conflicts',
+  'placeholders',
+  'overflows',
+  'warnings',
+];
+
+/**
+ * Get the conditions in the report which may need attention
+ *
+ * @param report - Report of the import
+ * @returns Issues present in the report
+ */
+export function getImportIssues(report: ImportReport) {
+  const present: Record<ImportIssue, boolean> = {
+    'unknown-ids': report.unknownIds.length > 0,
+    'skipped-columns': report.skippedColumns.length > 0,
+    'hash-mismatch': report.hashMismatch,
+    conflicts: report.conflicts.length > 0,
+    placeholders: report.placeholderMismatches.length > 0,
+    overflows: report.overflows.length > 0,
+    warnings: report.warnings.length > 0,
+  };
+  return IMPORT_ISSUES.filter(issue => present[issue]);
+}
+
+/**
+ * Format the report as a human-readable summary. Skipped columns are grouped
+ * by the column and the reason as usually the whole column is skipped.
+ *
+ * @param report - Report of the import
+ * @returns Summary with one line per item
+ */
+export function formatImportReport(report: ImportReport) {
+  const lines = [
+    `${report.updated} units updated, ${report.changes.length} values changed`,
+  ];
+
+  if (report.hashMismatch)
+    lines.push('Graphml file has changed since the export');
+
+  if (report.partialExport)
+    lines.push(
+      'Partial export, units not matching the export filter were not imported'
+    );
+
+  if (report.unknownIds.length > 0)
+    lines.push(
+      `Unknown ids (${report.unknownIds.length}): ${report.unknownIds.join(
+        ', '
+      )}`
+    );
+
+  if (report.created.length > 0)
+    lines.push(
+      `Created units (${report.created.length}): ${report.created.join(', ')}`
+    );
+
+  if (report.deleted.length > 0)
+    lines.push(
+      `Deleted units (${report.deleted.length}): ${report.deleted
+        .map(({ id }) => id)
+        .join(', ')}`
+    );
+
+  const skipped = new Map<string, string[]>();
+  for (const { id, column, reason } of report.skippedColumns) {
+    const key = `${column} (${reason})`;
+    skipped.set(key, [...(skipped.get(key) ?? []), id]);
+  }
+  for (const [key, ids] of skipped)
+    lines.push(`Skipped column ${key}: ${ids.join(', ')}`);
+
+  for (const { id, column } of report.conflicts)
+    lines.push(
+      `Changed both in the graph and in the import, kept the graph value (id=${id}, ${column})`
+    );
+
+  for (const { id, column, missing, extra } of report.placeholderMismatches) {
+    const changes = [
+      ...(missing.length > 0 ? [`missing ${missing.join(' ')}`] : []),
+      ...(extra.length > 0 ? [`extra ${extra.join(' ')}`] : []),
+    ];
+    lines.push(
+      `Placeholders changed (id=${id}, ${column}): ${changes.join(', ')}`
+    );
+  }
+
+  for (const overflow of report.overflows)
+    lines.push(
+      `Label overflows its node (id=${overflow.id}, ${overflow.column}): ` +
+        `${overflow.width}x${overflow.height} in ${overflow.nodeWidth}x${overflow.nodeHeight}`
+    );
+
+  for (const warning of report.warnings) lines.push(`Warning: ${warning}`);
+
+  return lines.join('\n');
+}
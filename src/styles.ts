@@ -0,0 +1,212 @@
+import type {
+  ExtractFields,
+  FieldPath,
+  StyleField,
+  StylePreset,
+} from './types';
+
+const LINE_TYPES = ['line', 'dashed', 'dotted', 'dashed_dotted'];
+
+// Arrow types of yEd, e.g. `standard`, `delta` or `crows_foot_many`
+const ARROW_TYPE = /^[a-z_]+$/;
+
+const STYLE_PRESETS: Record<StylePreset, StyleField[]> = {
+  geometry: ['x', 'y', 'width', 'height'].map(attribute => ({
+    column: attribute,
+    type: 'node',
+    path: `y:Geometry/@${attribute}`,
+    value: 'number',
+  })),
+  fill: [
+    {
+      column: 'fillColor',
+      type: 'node',
+      path: 'y:Fill/@color',
+      value: 'color',
+    },
+  ],
+  border: [
+    {
+      column: 'borderColor',
+      type: 'node',
+      path: 'y:BorderStyle/@color',
+      value: 'color',
+    },
+    {
+      column: 'borderWidth',
+      type: 'node',
+      path: 'y:BorderStyle/@width',
+      value: 'number',
+    },
+    {
+      column: 'borderType',
+      type: 'node',
+      path: 'y:BorderStyle/@type',
+      value: LINE_TYPES,
+    },
+  ],
+  line: [
+    {
+      column: 'lineColor',
+      type: 'edge',
+      path: 'y:LineStyle/@color',
+      value: 'color',
+    },
+    {
+      column: 'lineType',
+      type: 'edge',
+      path: 'y:LineStyle/@type',
+      value: LINE_TYPES,
+    },
+  ],
+  arrows: [
+    {
+      column: 'sourceArrow',
+      type: 'edge',
+      path: 'y:Arrows/@source',
+      value: 'arrow',
+    },
+    {
+      column: 'targetArrow',
+      type: 'edge',
+      path: 'y:Arrows/@target',
+      value: 'arrow',
+    },
+  ],
+  // All labels of the unit are updated
+  font: (['node', 'edge'] as const).flatMap(type => {
+    const label = type === 'node' ? 'y:NodeLabel' : 'y:EdgeLabel';
+    return [
+      {
+        column: 'fontSize',
+        type,
+        path: `${label}/@fontSize`,
+        value: 'number' as const,
+      },
+      {
+        column: 'fontStyle',
+        type,
+        path: `${label}/@fontStyle`,
+        value: ['plain', 'bold', 'italic', 'bolditalic'],
+      },
+      {
+        column: 'textColor',
+        type,
+        path: `${label}/@textColor`,
+        value: 'color' as const,
+      },
+    ];
+  }),
+};
+
+/**
+ * Get the names of the style presets
+ */
+export function getStylePresetNames() {
+  return Object.keys(STYLE_PRESETS) as StylePreset[];
+}
+
+/**
+ * Add the fields of the style presets to the exported fields. Fields of the
+ * same name in `fields` take precedence.
+ *
+ * @param fields - Exported fields
+ * @param [presets] - Style presets, e.g. `['geometry', 'fill']`
+ * @returns Exported fields with the style fields
+ */
+export function addStyleFields(fields: ExtractFields, presets?: StylePreset[]) {
+  if (presets === undefined || presets.length === 0) return fields;
+
+  const result: ExtractFields = { ...fields };
+  for (const { column, type, path } of getStyleFields(presets)) {
+    if (fields[type]?.[column] !== undefined || fields.common?.[column])
+      continue;
+    result[type] = { ...result[type], [column]: path };
+  }
+  return result;
+}
+
+/**
+ * Check whether a field is a column of a style preset
+ *
+ * @param type - node or edge
+ * @param column - Name of the field
+ * @param path - Path of the field
+ * @returns The style field or undefined
+ */
+export function getStyleField(
+  type: 'node' | 'edge',
+  column: string,
+  path: FieldPath
+) {
+  return getStyleFields(getStylePresetNames()).find(
+    field =>
+      field.type === type && field.column === column && field.path === path
+  );
+}
+
+/**
+ * Get the allowed values of the exported style columns which have a fixed set
+ * of values, e.g. `borderType`
+ *
+ * @param fields - Exported fields
+ * @returns Values keyed by the column name
+ */
+export function getStyleValueLists(fields: ExtractFields) {
+  const lists: Record<string, string[]> = {};
+  for (const type of ['node', 'edge'] as const)
+    for (const [column, path] of Object.entries(fields[type] ?? {})) {
+      const value = getStyleField(type, column, path)?.value;
+      if (Array.isArray(value)) lists[column] = value;
+    }
+  return lists;
+}
+
+/**
+ * Verify an imported value of a style column
+ *
+ * @param field - Style field
+ * @param value - Imported value
+ * @returns Reason why the value is invalid, undefined for a valid value
+ */
+export function validateStyleValue(field: StyleField, value: string | null) {
+  const text = value ?? '';
+  if (field.value === 'number')
+    return /^-?\d+(\.\d+)?$/.test(text)
+      ? undefined
+      : 'invalid value, expected a number';
+
+  if (field.value === 'color')
+    return isColor(text)
+      ? undefined
+      : 'invalid value, expected a color #RRGGBB or #RRGGBBAA';
+
+  if (field.value === 'arrow')
+    return ARROW_TYPE.test(text)
+      ? undefined
+      : 'invalid value, expected an arrow type';
+
+  return field.value.includes(text)
+    ? undefined
+    : `invalid value, expected ${field.value.join(', ')}`;
+}
+
+/**
+ * Check whether the value is a color of yEd, `#RRGGBB` or `#RRGGBBAA`
+ */
+export function isColor(value: string) {
+  return /^#([0-9a-f]{6}|[0-9a-f]{8})$/i.test(value);
+}
+
+function getStyleFields(presets: StylePreset[]) {
+  return presets.flatMap(preset => {
+    const fields = STYLE_PRESETS[preset];
+    if (fields === undefined)
+      throw new Error(
+        `Unknown style preset ${preset}, expected one of: ${getStylePresetNames().join(
+          ', '
+        )}`
+      );
+    return fields;
+  });
+}
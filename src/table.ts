@@ -0,0 +1,429 @@
+import Debug from 'debug';
+const debug = Debug('yedxtract:table');
+
+import {
+  SOURCE_HASH_COLUMN,
+  splitTrackingColumns,
+  STATUS_COLUMNS,
+} from './changes';
+import {
+  compareLabelColumns,
+  isAdditionalLabelColumn,
+  parseTranslationColumn,
+  translationColumn,
+} from './labels';
+import {
+  compilePlaceholders,
+  listUnitPlaceholders,
+  PLACEHOLDERS_COLUMN,
+} from './placeholders';
+
+import type {
+  ImportOptions,
+  Metadata,
+  OutputUnit,
+  TableRow,
+  XlsxOptions,
+} from './types';
+
+// Columns of the original values are named `original:<column>`
+const ORIGINAL_COLUMN_PREFIX = 'original:';
+
+// Fixed columns in order, label columns follow these
+export const DEFAULT_COLUMNS = [
+  'type',
+  'id',
+  'source',
+  'target',
+  'parent',
+  'unitType',
+  'label',
+  'closedLabel',
+];
+
+/**
+ * Convert units to table rows with one column per field
+ *
+ * @param units - Units exported from the graph
+ * @param [options] - Columns to include or exclude
+ * @returns Rows keyed by the column name
+ */
+export function unitsToRows(
+  units: OutputUnit[],
+  options: XlsxOptions = {}
+): TableRow[] {
+  return units.map(unit => {
+    const {
+      fields,
+      data,
+      labels,
+      properties,
+      translations,
+      originals,
+      row,
+      ...rest
+    } = unit;
+    const allFields: Record<string, string | null> = {
+      ...fields,
+      ...properties,
+      ...labels,
+      ...flattenTranslations(translations),
+      ...flattenOriginals(originals),
+      ...rest,
+    };
+
+    const allProperties = Object.keys(allFields);
+    const includedProperties = filterColumns(allProperties, options);
+
+    return Object.fromEntries(
+      includedProperties.map(prop => [prop, allFields[prop]])
+    );
+  });
+}
+
+/**
+ * Convert units to table rows and get the columns in the output order
+ *
+ * @param units - Units exported from the graph
+ * @param metadata - Metadata of the export
+ * @param [options] - Columns to include or exclude
+ * @returns Table rows and columns
+ */
+export function getTableRows(
+  units: OutputUnit[],
+  metadata: Metadata,
+  options: XlsxOptions = {}
+) {
+  const rows = unitsToRows(units, options);
+
+  // Placeholders of the labels for the translators, ignored on import
+  if (
+    metadata.placeholders &&
+    filterProperties([PLACEHOLDERS_COLUMN], options).length > 0
+  ) {
+    const regex = compilePlaceholders(metadata.placeholders);
+    units.forEach((unit, i) => {
+      const placeholders = listUnitPlaceholders(unit, regex);
+      if (placeholders !== undefined)
+        rows[i][PLACEHOLDERS_COLUMN] = placeholders;
+    });
+  }
+
+  return { rows, columns: getColumns(rows, metadata) };
+}
+
+/**
+ * Get the columns present in the rows in the output order: default columns,
+ * additional labels, change status, placeholders, translations, the other
+ * columns and then the source hash and the original values
+ *
+ * @param rows - Table rows
+ * @param metadata - Metadata of the export, defines the order of languages
+ * @returns Column names
+ */
+export function getColumns(rows: TableRow[], metadata: Metadata) {
+  const columnsPresent = getAllColumnNames(rows);
+
+  const defaultColumnsPresent = DEFAULT_COLUMNS.filter(c =>
+    columnsPresent.includes(c)
+  );
+
+  // Additional labels (label_2, closedLabel_2 etc.) follow the default columns
+  const labelColumnsPresent = columnsPresent
+    .filter(c => isAdditionalLabelColumn(c))
+    .sort(compareLabelColumns);
+
+  // Translations in the order of the languages and then the labels
+  const languages = metadata.languages ?? [];
+  const translationColumnsPresent = columnsPresent
+    .filter(c => parseTranslationColumn(c, languages) !== undefined)
+    .sort((a, b) => {
+      const parsedA = parseTranslationColumn(a, languages);
+      const parsedB = parseTranslationColumn(b, languages);
+      if (parsedA === undefined || parsedB === undefined) return 0;
+      return (
+        languages.indexOf(parsedA.language) -
+          languages.indexOf(parsedB.language) ||
+        compareLabelColumns(parsedA.column, parsedB.column)
+      );
+    });
+
+  const placeholderColumnPresent = columnsPresent.filter(
+    c => metadata.placeholders && c === PLACEHOLDERS_COLUMN
+  );
+
+  const statusColumnsPresent = STATUS_COLUMNS.filter(
+    c => metadata.trackChanges && columnsPresent.includes(c)
+  );
+  const sourceHashColumnPresent = columnsPresent.filter(
+    c => metadata.trackChanges && c === SOURCE_HASH_COLUMN
+  );
+
+  const otherColumnsPresent = columnsPresent
+    .filter(c => !DEFAULT_COLUMNS.includes(c))
+    .filter(c => !placeholderColumnPresent.includes(c))
+    .filter(c => !statusColumnsPresent.includes(c))
+    .filter(c => !sourceHashColumnPresent.includes(c))
+    .filter(c => !isAdditionalLabelColumn(c))
+    .filter(c => parseTranslationColumn(c, languages) === undefined)
+    .filter(c => parseOriginalColumn(c) === undefined);
+
+  const columns = [
+    ...defaultColumnsPresent,
+    ...labelColumnsPresent,
+    ...statusColumnsPresent,
+    ...placeholderColumnPresent,
+    ...translationColumnsPresent,
+    ...otherColumnsPresent,
+    ...sourceHashColumnPresent,
+  ];
+
+  // Original values in the order of the columns
+  const originalColumnsPresent = columns
+    .map(originalColumn)
+    .filter(c => columnsPresent.includes(c));
+
+  return [...columns, ...originalColumnsPresent];
+}
+
+/**
+ * Convert table rows back to units. Undefined values (empty cells) are
+ * skipped on import, null values set an empty value.
+ *
+ * @param rows - Table rows
+ * @param metadata - Metadata of the export
+ * @param [options] - Options object to define imported fields
+ * @param [rowNumbers] - Rows of the imported file in the order of the rows,
+ *                       stored in the units for the error messages
+ * @returns List of values for nodes and edges
+ */
+export function rowsToUnits(
+  rows: TableRow[],
+  metadata: Metadata,
+  options: ImportOptions = {},
+  rowNumbers: Array<number | undefined> = []
+) {
+  // Get all columns present in data
+  const columnsPresent = getAllColumnNames(rows);
+  const includedColumns = filterColumns(
+    columnsPresent,
+    options.fieldsToImport ?? {}
+  );
+
+  // Columns of user-defined properties, user-defined fields take precedence if
+  // the same name is used for both
+  const { node, edge, common } = metadata.extractedFields;
+  const fieldNames = Object.keys({ ...node, ...edge, ...common });
+  const propertyNames = (metadata.extractedProperties ?? []).filter(
+    name => !fieldNames.includes(name)
+  );
+  const languages = metadata.languages ?? [];
+
+  // Convert to IOutputUnit
+  let units = rows.map((row, i) => {
+    // Filter out columns not in `includedColumns` and the placeholders column
+    const filteredCols = Object.fromEntries(
+      Object.entries(row).filter(
+        ([key]) =>
+          includedColumns.includes(key) &&
+          !(metadata.placeholders && key === PLACEHOLDERS_COLUMN)
+      )
+    );
+
+    const { id, type, source, target, parent, validated } =
+      validateRow(filteredCols);
+    const { unitType, label, closedLabel, ...others } = validated;
+    const { tracking, rest } = metadata.trackChanges
+      ? splitTrackingColumns(others)
+      : { tracking: {}, rest: others };
+
+    // Separate additional label and property columns from the user-defined
+    // fields
+    const labels: Record<string, string | null> = {};
+    const properties: Record<string, string | null> = {};
+    const translations: Record<string, Record<string, string | null>> = {};
+    const originals: Record<string, string | null> = {};
+    const fields: Record<string, string | null> = {};
+    for (const [column, value] of Object.entries(rest)) {
+      const translation = parseTranslationColumn(column, languages);
+      const originalOf = parseOriginalColumn(column);
+      if (originalOf !== undefined) originals[originalOf] = value;
+      else if (isAdditionalLabelColumn(column)) labels[column] = value;
+      else if (propertyNames.includes(column)) properties[column] = value;
+      else if (translation)
+        translations[translation.language] = {
+          ...translations[translation.language],
+          [translation.column]: value,
+        };
+      else fields[column] = value;
+    }
+
+    const unit: OutputUnit = {
+      id,
+      type,
+      source,
+      target,
+      parent,
+      unitType,
+      label,
+      closedLabel,
+      labels: Object.keys(labels).length > 0 ? labels : undefined,
+      properties: Object.keys(properties).length > 0 ? properties : undefined,
+      translations:
+        Object.keys(translations).length > 0 ? translations : undefined,
+      originals: Object.keys(originals).length > 0 ? originals : undefined,
+      ...tracking,
+      row: rowNumbers[i],
+      fields,
+    };
+
+    removeUndefined(unit);
+
+    return unit;
+  });
+
+  const { postProcess } = options;
+  if (typeof postProcess === 'function') {
+    debug('Postprocessing table units');
+    units = units.reduce<OutputUnit[]>((acc, unit) => {
+      const postProcessedUnit = postProcess(unit);
+      if (postProcessedUnit != null) acc.push(postProcessedUnit);
+      return acc;
+    }, []);
+  }
+
+  return units;
+}
+
+export function filterProperties(
+  properties: string[],
+  options: XlsxOptions = {}
+) {
+  return options.include
+    ? properties.filter(f => options.include?.includes(f))
+    : options.exclude
+    ? properties.filter(f => !options.exclude?.includes(f))
+    : properties;
+}
+
+/**
+ * Get the name of the column containing the original value of a column
+ *
+ * @param column - Column name, e.g. `label`
+ * @returns Column name, e.g. `original:label`
+ */
+export function originalColumn(column: string) {
+  return ORIGINAL_COLUMN_PREFIX + column;
+}
+
+/**
+ * Parse the name of an original value column
+ *
+ * @param column - Column name
+ * @returns Name of the column whose original value the column contains,
+ *          undefined for other columns
+ */
+export function parseOriginalColumn(column: string) {
+  return column.startsWith(ORIGINAL_COLUMN_PREFIX)
+    ? column.slice(ORIGINAL_COLUMN_PREFIX.length)
+    : undefined;
+}
+
+/**
+ * Filter columns with include and exclude options. Original value columns are
+ * included if the column of the value is included.
+ */
+function filterColumns(columns: string[], options: XlsxOptions) {
+  return columns.filter(
+    column =>
+      filterProperties([parseOriginalColumn(column) ?? column], options)
+        .length > 0
+  );
+}
+
+function flattenOriginals(originals: OutputUnit['originals']) {
+  return Object.fromEntries(
+    Object.entries(originals ?? {}).map(([column, value]) => [
+      originalColumn(column),
+      value,
+    ])
+  );
+}
+
+function flattenTranslations(translations: OutputUnit['translations']) {
+  return Object.fromEntries(
+    Object.entries(translations ?? {}).flatMap(([language, labels]) =>
+      Object.entries(labels).map(([column, text]) => [
+        translationColumn(column, language),
+        text,
+      ])
+    )
+  );
+}
+
+function getAllColumnNames(rows: TableRow[]) {
+  return [...new Set(rows.map(row => Object.keys(row)).flat())];
+}
+
+function validateRow(row: TableRow) {
+  const { id, type, source, target, parent, ...rest } = row;
+
+  if (typeof id !== 'string') throw new Error('Mandatory id column is missing');
+
+  // Ids of units in nested graphs are prefixed with the group node id, e.g.
+  // n0::e1, so deduce the type from the last part
+  const localId = id.split('::').pop() ?? id;
+  if (
+    type !== 'node' &&
+    type !== 'edge' &&
+    type !== 'graph' &&
+    localId[0] !== 'n' &&
+    localId[0] !== 'e'
+  )
+    throw new Error(
+      'Type column is missing and not possible to deduce type from id'
+    );
+  const deducedType: OutputUnit['type'] =
+    type === 'node' || type === 'edge' || type === 'graph'
+      ? type
+      : localId[0] === 'n'
+      ? 'node'
+      : 'edge';
+
+  if (typeof source !== 'string' && source !== undefined)
+    throw new Error('Invalid source column type, must be string or undefined');
+
+  if (typeof target !== 'string' && target !== undefined)
+    throw new Error('Invalid target column type, must be string or undefined');
+
+  if (typeof parent !== 'string' && parent !== undefined)
+    throw new Error('Invalid parent column type, must be string or undefined');
+
+  const validated: Record<string, string | null> = {};
+
+  for (const field in rest) {
+    const val = rest[field];
+    // Numbers typed to the cells, e.g. in geometry columns
+    if (typeof val === 'number') {
+      validated[field] = String(val);
+      continue;
+    }
+    if (typeof val !== 'string' && val !== null)
+      throw new Error(`Invalid type in ${field} column`);
+    validated[field] = val;
+  }
+
+  return {
+    id,
+    type: deducedType,
+    source,
+    target,
+    parent,
+    validated,
+  };
+}
+
+function removeUndefined(obj: OutputUnit) {
+  const keys = Object.keys(obj) as Array<keyof typeof obj>;
+  keys.forEach(key => obj[key] === undefined && delete obj[key]);
+}
@@ -0,0 +1,183 @@
+import { promises as fs } from 'fs';
+
+import {
+  DEFAULT_PLACEHOLDERS,
+  exportExcel,
+  formatImportReport,
+  importExcel,
+} from '.';
+import { parseGraphmlFormat, getUnitsFromGraph } from './graphml';
+import { createPo, importPo } from './po';
+import { createTranslationFile, parseTranslationFile } from './translation';
+import type { TranslationDocument, TranslationFormat } from './types';
+
+const LABELS_GRAPH = __dirname + '/../data/labels.graphml';
+const SIMPLE_GRAPH = __dirname + '/../data/simple.graphml';
+const OUTPUT_TRANSLATION = __dirname + '/../data/output.translation';
+const EXTENSIONS = { xliff: '.xlf', xliff2: '.xlf', po: '.po' };
+
+describe('translation.ts', () => {
+  test.each<TranslationFormat>(['xliff', 'xliff2', 'po'])(
+    'export and import %s',
+    async format => {
+      const file = await exportExcel(LABELS_GRAPH, {
+        format,
+        targetLanguage: 'fi',
+      });
+
+      const document = await parseTranslationFile(file.toString('utf-8'));
+      expect(document.metadata.yedFilename).toBe('labels.graphml');
+      expect(document.sourceLanguage).toBe('en');
+      expect(document.targetLanguage).toBe('fi');
+      expect(document.entries.map(e => [e.id, e.source])).toEqual([
+        ['n0', 'Customer'],
+        ['n0/label_2', 'id: number'],
+        ['n0/label_3', 'name: string'],
+        ['n1', 'Order'],
+        ['e0', '1'],
+        ['e0/label_2', 'places'],
+        ['e0/label_3', '0..*'],
+      ]);
+
+      document.entries[0].target = 'Asiakas';
+      document.entries[5].target = 'tekee';
+      const output = OUTPUT_TRANSLATION + EXTENSIONS[format];
+      await fs.writeFile(output, createTranslationFile(document, format));
+
+      // Format is detected from the file extension and contents
+      const { xml } = await importExcel(LABELS_GRAPH, output);
+      const units = getUnitsFromGraph(await parseGraphmlFormat(xml));
+      expect(units.map(u => [u.id, u.label, u.labels])).toEqual([
+        ['n0', 'Asiakas', { label_2: 'id: number', label_3: 'name: string' }],
+        ['n1', 'Order', undefined],
+        ['e0', '1', { label_2: 'tekee', label_3: '0..*' }],
+      ]);
+    }
+  );
+
+  test('placeholders are protected and checked on import', async () => {
+    const xliff = (
+      await exportExcel(SIMPLE_GRAPH, {
+        format: 'xliff2',
+        placeholders: DEFAULT_PLACEHOLDERS,
+      })
+    ).toString('utf-8');
+    expect(xliff).toContain(
+      '<source>START: <ph id="1" equiv="&lt;name&gt;" disp="&lt;name&gt;"/></source>'
+    );
+
+    const document = await parseTranslationFile(xliff);
+    expect(document.metadata.placeholders).toEqual(DEFAULT_PLACEHOLDERS);
+    document.entries[0].target = 'ALKU: <nimi>';
+    document.entries[2].target = '<mood>Mitä kuuluu? %s';
+    const output = OUTPUT_TRANSLATION + '.xlf';
+    await fs.writeFile(output, createTranslationFile(document, 'xliff'));
+    expect(await fs.readFile(output, 'utf-8')).toContain(
+      '<target><ph id="4">&lt;mood&gt;</ph>Mitä kuuluu? <ph id="5">%s</ph></target>'
+    );
+
+    const { report } = await importExcel(SIMPLE_GRAPH, output);
+    expect(report.placeholderMismatches).toEqual([
+      { id: 'n0', column: 'label', missing: ['<name>'], extra: ['<nimi>'] },
+      { id: 'n2', column: 'label', missing: [], extra: ['%s'] },
+    ]);
+
+    const csv = (
+      await exportExcel(SIMPLE_GRAPH, {
+        format: 'csv',
+        placeholders: DEFAULT_PLACEHOLDERS,
+        languages: ['fi'],
+      })
+    ).toString('utf-8');
+    expect(csv).toContain(
+      'type,id,source,target,unitType,label,placeholders,label_fi'
+    );
+    expect(csv).toContain('node,n0,,,y:GenericNode,START: <name>,<name>,');
+  });
+
+  test('inline codes are resolved within each source and target', async () => {
+    const xliff = (
+      await exportExcel(SIMPLE_GRAPH, {
+        format: 'xliff',
+        placeholders: DEFAULT_PLACEHOLDERS,
+      })
+    )
+      .toString('utf-8')
+      .replace(
+        '<ph id="1">&lt;name&gt;</ph></source>',
+        '<ph id="1">&lt;name&gt;</ph></source>' +
+          '<target>ALKU<ph id="9"/>: <ph id="1">&lt;nimi&gt;</ph> </target>'
+      );
+
+    const { entries } = await parseTranslationFile(xliff);
+    expect(entries.slice(0, 3)).toEqual([
+      {
+        id: 'n0',
+        source: 'START: <name>',
+        target: 'ALKU: <nimi> ',
+        note: 'node y:GenericNode',
+      },
+      {
+        id: 'n1',
+        source: 'Hello world!',
+        target: undefined,
+        note: 'node y:GenericNode',
+      },
+      {
+        id: 'n2',
+        source: '<mood>How are you doing?',
+        target: undefined,
+        note: 'node y:GenericNode',
+      },
+    ]);
+  });
+
+  test('xliff 2.0 labels are segments of the graph id unit', async () => {
+    const file = (
+      await exportExcel(LABELS_GRAPH, { format: 'xliff2' })
+    ).toString('utf-8');
+    expect(file).toContain('<unit id="n0" xml:space="preserve">');
+    expect(file).toContain('<segment id="label_2">');
+    expect(file).toContain('<note category="yedFilename">labels.graphml');
+  });
+
+  test('po strings are escaped and fuzzy translations skipped', () => {
+    const document: TranslationDocument = {
+      metadata: { yedFilename: 'a.graphml', yedHash: 'x', extractedFields: {} },
+      entries: [
+        { id: 'n0', source: 'Say "hi"\\\nto\tme', target: 'Sano "moi"\n' },
+        { id: 'n1', source: 'Fuzzy', target: 'Epäselvä' },
+      ],
+    };
+
+    const po = createPo(document)
+      .replace('msgctxt "n1"', '#, fuzzy\nmsgctxt "n1"')
+      .replace(/\n/g, '\r\n');
+    expect(po).toContain('msgid ""\r\n"Say \\"hi\\"\\\\\\n"\r\n"to\\tme"');
+
+    const { entries } = importPo(po);
+    expect(entries).toEqual([
+      { id: 'n0', source: 'Say "hi"\\\nto\tme', target: 'Sano "moi"\n' },
+      { id: 'n1', source: 'Fuzzy', target: undefined },
+    ]);
+  });
+
+  test('skipped messages and missing languages are reported', async () => {
+    const po = (await exportExcel(SIMPLE_GRAPH, { format: 'po' })).toString(
+      'utf-8'
+    );
+    const output = OUTPUT_TRANSLATION + '.po';
+    await fs.writeFile(output, po + '\nmsgid "Orphan"\nmsgstr "Orpo"\n');
+
+    const { report } = await importExcel(SIMPLE_GRAPH, output, {
+      language: 'sv',
+    });
+    expect(report.warnings).toEqual([
+      'Message without context, skipped (msgid=Orphan)',
+      `No translations for language sv in ${output}`,
+    ]);
+    expect(formatImportReport(report)).toContain(
+      '\nWarning: Message without context, skipped (msgid=Orphan)\n'
+    );
+  });
+});
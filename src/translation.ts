@@ -0,0 +1,143 @@
+import Debug from 'debug';
+const debug = Debug('yedxtract:translation');
+
+import { filterProperties } from './table';
+import {
+  getUnitLabels,
+  parseTranslationUnitId,
+  setUnitLabel,
+  translationUnitId,
+} from './labels';
+import { createPo, importPo } from './po';
+import { createXliff, importXliff } from './xliff';
+
+import type {
+  ExportOptions,
+  ImportOptions,
+  Metadata,
+  OutputUnit,
+  TranslationDocument,
+  TranslationFormat,
+} from './types';
+
+/**
+ * Collect the labels of the units for a translation file. Empty labels are
+ * skipped as there is nothing to translate.
+ *
+ * @param units - Units exported from the graph
+ * @param metadata - Metadata of the export
+ * @param [options] - Export options, `columnsToExcel` selects the label columns
+ * @returns Labels and metadata of the translation file
+ */
+export function createTranslationDocument(
+  units: OutputUnit[],
+  metadata: Metadata,
+  options: ExportOptions = {}
+): TranslationDocument {
+  const entries = units.flatMap(unit => {
+    const labels = getUnitLabels(unit);
+    const columns = filterProperties(
+      Object.keys(labels),
+      options.columnsToExcel
+    );
+    const note = [unit.type, unit.unitType].filter(Boolean).join(' ');
+
+    return columns.flatMap(column => {
+      const source = labels[column];
+      if (source == null || source === '') return [];
+      return [{ id: translationUnitId(unit.id, column), source, note }];
+    });
+  });
+
+  return {
+    metadata,
+    sourceLanguage: options.sourceLanguage,
+    targetLanguage: options.targetLanguage,
+    entries,
+  };
+}
+
+/**
+ * Convert the translated labels to units which can be merged to the graph.
+ * Labels without a translation are kept unchanged.
+ *
+ * @param document - Translation file contents
+ * @param [options] - Import options, `fieldsToImport` selects the label columns
+ * @returns Units with the translated labels
+ */
+export function getUnitsFromTranslation(
+  document: TranslationDocument,
+  options: ImportOptions = {}
+) {
+  const unitsById = new Map<string, OutputUnit>();
+
+  for (const entry of document.entries) {
+    const { id, column } = parseTranslationUnitId(entry.id);
+    if (filterProperties([column], options.fieldsToImport).length === 0)
+      continue;
+    if (entry.target === undefined || entry.target === '') continue;
+
+    const unit = unitsById.get(id) ?? {
+      id,
+      type: getTypeFromId(id),
+      fields: {},
+    };
+    setUnitLabel(unit, column, entry.target);
+    // The source text is the label at the time of the export
+    unit.originals = { ...unit.originals, [column]: entry.source };
+    unitsById.set(id, unit);
+  }
+
+  let units = [...unitsById.values()];
+
+  const { postProcess } = options;
+  if (typeof postProcess === 'function') {
+    debug('Postprocessing translated units');
+    units = units.reduce<OutputUnit[]>((acc, unit) => {
+      const postProcessedUnit = postProcess(unit);
+      if (postProcessedUnit != null) acc.push(postProcessedUnit);
+      return acc;
+    }, []);
+  }
+
+  return units;
+}
+
+/**
+ * Serialize a translation document
+ *
+ * @param document - Labels and metadata of the export
+ * @param format - Translation file format
+ * @returns Translation file as a string
+ */
+export function createTranslationFile(
+  document: TranslationDocument,
+  format: TranslationFormat
+) {
+  switch (format) {
+    case 'xliff':
+      return createXliff(document, '1.2');
+    case 'xliff2':
+      return createXliff(document, '2.0');
+    case 'po':
+      return createPo(document);
+  }
+}
+
+/**
+ * Parse an XLIFF or PO translation file, the format is detected from the
+ * contents
+ *
+ * @param file - Translation file as a string
+ * @returns Labels and metadata of the file
+ */
+export async function parseTranslationFile(file: string) {
+  // XLIFF files are XML, everything else is parsed as PO
+  return /^\uFEFF?\s*</.test(file) ? importXliff(file) : importPo(file);
+}
+
+function getTypeFromId(id: string): OutputUnit['type'] {
+  // Ids of units in nested graphs are prefixed with the group node id
+  const localId = id.split('::').pop() ?? id;
+  return localId[0] === 'e' ? 'edge' : 'node';
+}
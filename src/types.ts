@@ -6,16 +6,25 @@ export type XMLValue = string | XMLField | Array<string | XMLField>;
 
 export type GraphmlKeys = Array<{ $: Record<string, string> }>;
 
+export interface PropertyKey {
+  // Key id used in <data key="">
+  id: string;
+  // Property name (attr.name)
+  name: string;
+}
+
+export interface GraphmlGraph extends XMLField {
+  $: Record<string, string>;
+  data: Array<XMLField>;
+  edge: Array<XMLField>;
+  node: Array<XMLField>;
+}
+
 export interface Graphml {
   graphml: {
     $: Record<string, string>;
     data: Array<XMLField>;
-    graph: Array<{
-      $: Record<string, string>;
-      data: Array<XMLField>;
-      edge: Array<XMLField>;
-      node: Array<XMLField>;
-    }>;
+    graph: Array<GraphmlGraph>;
     key: GraphmlKeys;
   };
 }
@@ -25,32 +34,81 @@ export interface GraphUnit {
   type: 'node' | 'edge';
   source?: string;
   target?: string;
+  // Id of the group or folder node containing the unit, undefined for units in
+  // the top-level graph
+  parent?: string;
   data: XMLField;
   // Reference to object attributes which contain source and target values, used
   // to update the graph
   attributes: XMLField;
+  // Reference to the node or edge element, used to update the data elements of
+  // user-defined properties
+  xml: XMLField;
 }
 
 export interface ExtractedGraphUnit extends GraphUnit {
   unitType: string;
   elements: XMLField;
+  // Elements of the closed state of group and folder nodes, `elements`
+  // contains the open state
+  closedElements?: XMLField;
 }
 
 export interface OutputUnit {
   id: string;
-  type: 'node' | 'edge';
+  // Graph units contain the properties of the top-level graph
+  type: 'node' | 'edge' | 'graph';
   source?: string;
   target?: string;
+  parent?: string;
   unitType?: string | null;
   label?: string | null;
+  closedLabel?: string | null;
+  // Labels after the first one keyed by the column name (e.g. label_2)
+  labels?: Record<string, string | null>;
+  // User-defined properties (graphml keys with attr.name) keyed by the name
+  properties?: Record<string, string | null>;
+  // Translations of the labels keyed by the language and the label column
+  translations?: Record<string, Record<string, string | null>>;
+  // Values at the time of the export keyed by the column name, used to merge
+  // the import if the graph has changed since the export
+  originals?: Record<string, string | null>;
+  // Change since the previous export, see `previousExport` export option
+  status?: ChangeStatus;
+  // Label of the previous export for changed and removed units
+  previousLabel?: string | null;
+  // Hash of the labels at the time of the export
+  sourceHash?: string;
+  // Row of the imported xlsx sheet or line of the CSV file where the unit
+  // starts, the header is row 1. Not set for formats without rows.
+  row?: number;
   fields: Record<string, string | null>;
   data?: XMLField;
 }
 
+export type ChangeStatus = 'new' | 'changed' | 'unchanged' | 'removed';
+
 export interface ExtractFieldsUnit {
-  [outputField: string]: string[];
+  [outputField: string]: FieldPath;
 }
 
+// Path to a field relative to the node or edge element, either a string like
+// `y:Fill/@color` or an array of object keys like `['y:Fill', '[0]', '$', 'color']`
+export type FieldPath = string | string[];
+
+// Parsed step of a string field path
+export type FieldPathStep =
+  | { type: 'element'; name: string; predicates: FieldPathPredicate[] }
+  | { type: 'attribute'; name: string }
+  | { type: 'text' };
+
+export type FieldPathPredicate =
+  // Zero-based index, written one-based in the path like in XPath
+  | { type: 'index'; index: number }
+  | { type: 'any' }
+  // Attribute exists or has the value
+  | { type: 'attribute'; name: string; value?: string };
+
 export interface ExtractFields {
   node?: ExtractFieldsUnit;
   edge?: ExtractFieldsUnit;
@@ -63,6 +121,17 @@ export interface ExtractElements {
   common: string[];
 }
 
+export type TableCellValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | null
+  | undefined;
+
+// Row of a tabular export (xlsx, csv) keyed by the column name
+export type TableRow = Record<string, TableCellValue>;
+
 export interface XlsxOptions {
   include?: string[];
   exclude?: string[];
@@ -73,17 +142,380 @@ export interface Metadata {
   yedFilename: string;
   yedHash: string;
   extractedFields: ExtractFields;
+  // Names of the exported user-defined properties
+  extractedProperties?: string[];
+  // Target languages of the translation columns
+  languages?: string[];
+  // Identical labels are collapsed to one row
+  deduplicated?: boolean;
+  // Only the units matching the filter were exported
+  filter?: ExportFilter;
+  // Regular expressions of the placeholders protected in the labels
+  placeholders?: string[];
+  // The rows have the columns of the change tracking
+  trackChanges?: boolean;
+}
+
+// Translation file formats: XLIFF 1.2, XLIFF 2.0 and gettext PO
+export type TranslationFormat = 'xliff' | 'xliff2' | 'po';
+
+export interface TranslationEntry {
+  // Graph id for the `label` column, `<id>/<column>` for the other label
+  // columns, e.g. `n0/label_2`
+  id: string;
+  source: string;
+  target?: string;
+  // Context for the translator, e.g. `node ShapeNode`
+  note?: string;
+}
+
+export interface TranslationDocument {
+  metadata: Metadata;
+  sourceLanguage?: string;
+  targetLanguage?: string;
+  entries: TranslationEntry[];
+  // Problems of the parsed file which did not stop the parsing
+  warnings?: string[];
+}
+
+// Units and metadata of an exported file
+export interface ParsedExport {
+  units: OutputUnit[];
+  metadata: Metadata;
+  // Problems of the parsed file which did not stop the parsing
+  warnings?: string[];
+}
+
+export interface ExportFormat {
+  // File extensions, the first one is used for output files by default
+  extensions: string[];
+  // Serialize the units and metadata
+  create: (
+    units: OutputUnit[],
+    metadata: Metadata,
+    options: ExportOptions
+  ) => Buffer;
+  // Parse a file created with `create`
+  parse: (
+    file: Buffer,
+    options: ImportOptions
+  ) => ParsedExport | Promise<ParsedExport>;
 }
 
 export type PostProcess = (row: OutputUnit) => OutputUnit | null;
 
 export interface ExportOptions {
+  // Name of the export format, xlsx by default
+  format?: string;
   fieldsToExport?: ExtractFields;
+  exportProperties?: boolean;
+  languages?: string[];
+  // Languages written to XLIFF and PO files
+  sourceLanguage?: string;
+  targetLanguage?: string;
+  storeOriginals?: boolean;
+  deduplicate?: boolean;
+  // Translation memory file used to prefill the translation columns
+  translationMemory?: string;
   columnsToExcel?: XlsxOptions;
+  filter?: ExportFilter;
+  // Built-in geometry and style columns
+  styles?: StylePreset[];
+  // Regular expressions of the placeholders protected in the labels
+  placeholders?: string[];
+  // Store the hash of the labels of each unit, and compare them to the
+  // previous export file
+  trackChanges?: boolean;
+  previousExport?: string;
+  workbook?: WorkbookOptions;
   postProcess?: PostProcess;
 }
 
-export interface ImportOptions {
+// Editing aids of the Content sheet of xlsx files
+export interface WorkbookOptions {
+  // Lock the read-only columns, highlight the editable columns, wrap the label
+  // columns and freeze the header row
+  protect?: boolean;
+  // Allowed values of the columns shown as drop-down lists
+  validation?: Record<string, string[]>;
+}
+
+// Format of a column of the Content sheet, see `formatContentSheet`
+export interface ColumnFormat {
+  editable: boolean;
+  wrap: boolean;
+  // Allowed values
+  list?: string[];
+}
+
+export type StylePreset =
+  | 'geometry'
+  | 'fill'
+  | 'border'
+  | 'line'
+  | 'arrows'
+  | 'font';
+
+// Column of a style preset
+export interface StyleField {
+  column: string;
+  type: 'node' | 'edge';
+  path: string;
+  // Imported values are verified: numbers, `#RRGGBB` or `#RRGGBBAA` colors,
+  // arrow types or one of the listed values
+  value: 'number' | 'color' | 'arrow' | string[];
+}
+
+// Nodes and edges which are exported, a unit is exported if it matches all the
+// given conditions
+export interface ExportFilter {
+  types?: Array<'node' | 'edge'>;
+  // Realizer elements, e.g. `y:GenericNode`
+  unitTypes?: string[];
+  // Values of the `configuration` attribute, `*` matches any characters, e.g.
+  // `com.yworks.flowchart.*`
+  configurations?: string[];
+  // Only units with at least one non-empty label
+  withLabels?: boolean;
+  ids?: string[];
+}
+
+// Options of updating the graph for creating and deleting units
+export interface UpdateOptions {
+  // Create the nodes and edges which are not in the graph
+  createUnits?: boolean;
+  // Delete the nodes and edges which are not imported
+  deleteUnits?: boolean;
+  // Ids of the node and edge copied to create new units
+  nodeTemplate?: string;
+  edgeTemplate?: string;
+  // Reject imported edges from a node to itself or with the same source and
+  // target as another edge
+  rejectSelfLoops?: boolean;
+  rejectDuplicateEdges?: boolean;
+  // Resize the changed labels to fit their text, `fitNodes` also enlarges the
+  // nodes to fit their labels
+  fitLabels?: boolean;
+  fitNodes?: boolean;
+}
+
+export interface ImportOptions extends UpdateOptions {
+  // Name of the import format, by default detected from the file extension
+  format?: string;
   postProcess?: PostProcess;
   fieldsToImport?: XlsxOptions;
+  preserveFormatting?: boolean;
+  language?: string;
+  hashCheck?: HashCheck;
+  // Translation memory file updated with the imported translations
+  translationMemory?: string;
+  // Regular expressions of the placeholders, by default those of the export
+  placeholders?: string[];
+}
+
+// How to handle an import if the graph has changed since the export
+export type HashCheck = 'warn' | 'strict' | 'merge';
+
+export interface MergeConflict {
+  id: string;
+  column: string;
+  // Value at the time of the export
+  original: string | null;
+  // Value in the current graph
+  current: string | null;
+  // Value in the imported file
+  imported: string | null;
+}
+
+export interface FieldChange {
+  id: string;
+  // Changed column, e.g. label, source or the name of a field or property
+  column: string;
+  before: string | null;
+  after: string | null;
+}
+
+export interface SkippedColumn {
+  id: string;
+  column: string;
+  reason: string;
+}
+
+// Invalid source or target of an edge after the import
+export interface EdgeIssue {
+  id: string;
+  // Row of the imported unit, the header is row 1
+  row?: number;
+  column: 'source' | 'target';
+  value: string;
+  reason: string;
+}
+
+// Result of updating the graph with the imported units
+export interface UpdateReport {
+  // Number of nodes, edges and graphs with at least one changed value
+  updated: number;
+  changes: FieldChange[];
+  // Ids of the imported units not found in the graph
+  unknownIds: string[];
+  skippedColumns: SkippedColumn[];
+  // Ids of the created nodes and edges
+  created: string[];
+  // Nodes and edges which were not imported and were deleted
+  deleted: Array<{ id: string; type: 'node' | 'edge' }>;
+  // Changed labels which do not fit in their node
+  overflows: LabelOverflow[];
+}
+
+// Estimated size of a label, see `estimateLabelSize`
+export interface TextSize {
+  width: number;
+  height: number;
+}
+
+export interface LabelOverflow {
+  id: string;
+  column: string;
+  // Size required by the label including the padding
+  width: number;
+  height: number;
+  nodeWidth: number;
+  nodeHeight: number;
+}
+
+export interface ImportReport extends UpdateReport {
+  // The graphml file has changed since the export
+  hashMismatch: boolean;
+  conflicts: MergeConflict[];
+  // The file contains only the units matching the export filter
+  partialExport: boolean;
+  placeholderMismatches: PlaceholderMismatch[];
+  // Parts of the imported file which were ignored, e.g. messages without an id
+  warnings: string[];
+}
+
+// Imported label or translation whose placeholders differ from the label of
+// the graph
+export interface PlaceholderMismatch {
+  id: string;
+  column: string;
+  // Placeholders of the graph label missing from the imported value
+  missing: string[];
+  // Placeholders of the imported value not in the graph label
+  extra: string[];
+}
+
+export interface ImportResult {
+  xml: string;
+  report: ImportReport;
+}
+
+// Report conditions which can be treated as failures, e.g. in CI
+export type ImportIssue =
+  | 'unknown-ids'
+  | 'skipped-columns'
+  | 'hash-mismatch'
+  | 'conflicts'
+  | 'placeholders'
+  | 'overflows'
+  | 'warnings';
+
+export type DiffFormat = 'text' | 'json' | 'html';
+
+export interface UnitDiff {
+  id: string;
+  type: OutputUnit['type'];
+  // Unknown units were not found in the graph
+  status: 'changed' | 'unchanged' | 'unknown' | 'created' | 'deleted';
+  changes: Array<Omit<FieldChange, 'id'>>;
+}
+
+// Result of a dry run of the import
+export interface ImportDiff {
+  units: UnitDiff[];
+  report: ImportReport;
+}
+
+export interface ReplaceRule {
+  // Text to find, a regular expression if `regex` is set
+  find: string;
+  // Replacement, may refer to regular expression groups, e.g. `$1`
+  replace: string;
+  regex?: boolean;
+  ignoreCase?: boolean;
+  // Match only whole words
+  wholeWord?: boolean;
+}
+
+export interface ReplaceOptions {
+  // User-defined fields to replace in addition to the labels
+  fieldsToExport?: ExtractFields;
+  // Replace also in user-defined properties
+  exportProperties?: boolean;
+  // Columns to replace in, e.g. `{ include: ['label'] }`
+  columns?: XlsxOptions;
+  preserveFormatting?: boolean;
+}
+
+export interface Replacement {
+  id: string;
+  column: string;
+  // `find` of the applied rule
+  rule: string;
+  // Number of matches
+  count: number;
+  before: string;
+  after: string;
+}
+
+export interface ReplaceResult {
+  xml: string;
+  replacements: Replacement[];
+  report: UpdateReport;
+}
+
+// Workbook layout of a batch export: a sheet per graphml file or all files on
+// the Content sheet with a `file` column
+export type BatchLayout = 'sheets' | 'combined';
+
+export interface BatchExportOptions extends ExportOptions {
+  layout?: BatchLayout;
+  // Directory the file paths are relative to, by default the common parent
+  // directory of the files
+  baseDir?: string;
+}
+
+export interface BatchFile {
+  // Path relative to the base directory with `/` separators
+  file: string;
+  units: OutputUnit[];
+  metadata: Metadata;
+}
+
+// Translations keyed by the language and the source text
+export type TranslationMemory = Record<string, Record<string, string>>;
+
+// Layout of a generated graph: nodes in a grid or in layers following the
+// edges from top to bottom
+export type GraphLayout = 'grid' | 'layered';
+
+export interface GenerateOptions {
+  layout?: GraphLayout;
+}
+
+// Node of the Nodes sheet of a generated graph
+export interface GeneratedNode {
+  id: string;
+  label: string;
+  // Shape of `y:Shape`, e.g. `rectangle` or `ellipse`
+  shape: string;
+  color: string;
+}
+
+// Edge of the Edges sheet of a generated graph
+export interface GeneratedEdge {
+  id: string;
+  source: string;
+  target: string;
+  label: string;
 }
@@ -0,0 +1,249 @@
+import { CFB, utils } from 'xlsx';
+import Debug from 'debug';
+const debug = Debug('yedxtract:workbook');
+
+import type { ColumnFormat } from './types';
+
+// The community edition of SheetJS does not write cell styles, frozen panes or
+// data validations, so they are added to the XML of the written file
+interface ZipEntry {
+  content: Uint8Array;
+}
+interface Zip {
+  read(file: Buffer, options: { type: 'buffer' }): unknown;
+  find(container: unknown, path: string): ZipEntry | null;
+  write(container: unknown, options: Record<string, unknown>): Buffer;
+}
+const zip: Zip = CFB;
+
+const CONTENT_SHEET_PATH = '/xl/worksheets/sheet1.xml';
+const STYLES_PATH = '/xl/styles.xml';
+
+// Light yellow background of the editable columns
+const EDITABLE_FILL = 'FFFFF2CC';
+// Inline lists of data validations are limited to 255 characters
+const MAX_LIST_LENGTH = 255;
+// Last row of a worksheet, validations cover also the added rows
+const MAX_ROW = 1048576;
+
+// Elements which follow `dataValidations` in a worksheet
+const AFTER_VALIDATIONS =
+  /<(?:hyperlinks|printOptions|pageMargins|pageSetup|headerFooter|rowBreaks|colBreaks|ignoredErrors|drawing|legacyDrawing|tableParts|extLst)\b|<\/worksheet>/;
+
+interface CellStyles {
+  header: number;
+  readOnly: number;
+  readOnlyWrap: number;
+  editable: number;
+  editableWrap: number;
+}
+
+/**
+ * Add editing aids to the Content sheet of an xlsx file created by
+ * `createXlsx`. With `protect` the sheet is protected so that only the
+ * editable columns can be changed, the editable columns are highlighted,
+ * wrapped columns get vertical alignment to the top and the header row is
+ * frozen. Columns with a list of allowed values get a drop-down list, other
+ * values are warned about.
+ *
+ * @param xlsx - Xlsx file whose first sheet is the Content sheet
+ * @param columns - Names and formats of the columns of the Content sheet in
+ *                  order
+ * @param protect - Protect the sheet and style the columns
+ * @returns Xlsx file
+ */
+export function formatContentSheet(
+  xlsx: Buffer,
+  columns: Array<[string, ColumnFormat]>,
+  protect: boolean
+) {
+  const container = zip.read(xlsx, { type: 'buffer' });
+  const sheet = getEntry(container, CONTENT_SHEET_PATH);
+  let xml = Buffer.from(sheet.content).toString('utf8');
+
+  if (protect) {
+    const styles = getEntry(container, STYLES_PATH);
+    const { xml: stylesXml, cellStyles } = addCellStyles(
+      Buffer.from(styles.content).toString('utf8')
+    );
+    styles.content = Buffer.from(stylesXml, 'utf8');
+    xml = protectSheet(
+      xml,
+      columns.map(([, format]) => format),
+      cellStyles
+    );
+  }
+
+  const validations = columns.flatMap(([name, { list }], i) =>
+    list ? [createValidation(name, utils.encode_col(i), list)] : []
+  );
+  if (validations.length > 0) {
+    debug(`Adding ${validations.length} validation lists`);
+    const index = xml.search(AFTER_VALIDATIONS);
+    xml =
+      xml.slice(0, index) +
+      `<dataValidations count="${validations.length}">` +
+      validations.join('') +
+      '</dataValidations>' +
+      xml.slice(index);
+  }
+
+  sheet.content = Buffer.from(xml, 'utf8');
+  return zip.write(container, {
+    type: 'buffer',
+    fileType: 'zip',
+    compression: true,
+  });
+}
+
+/**
+ * Style the cells by their column, freeze the header row and protect the sheet
+ */
+function protectSheet(
+  xml: string,
+  columns: ColumnFormat[],
+  cellStyles: CellStyles
+) {
+  const columnStyles = columns.map(({ editable, wrap }) =>
+    editable
+      ? wrap
+        ? cellStyles.editableWrap
+        : cellStyles.editable
+      : wrap
+      ? cellStyles.readOnlyWrap
+      : cellStyles.readOnly
+  );
+  const getStyle = (column: string, row: string) =>
+    row === '1'
+      ? cellStyles.header
+      : columnStyles[utils.decode_col(column)] ?? cellStyles.readOnly;
+
+  return (
+    xml
+      .replace(
+        /<sheetView ([^>]*?)\/>/,
+        '<sheetView $1><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+          '<selection pane="bottomLeft" activeCell="A2" sqref="A2"/></sheetView>'
+      )
+      // Empty cells get the style of their column
+      .replace(
+        /<col min="(\d+)"([^>]*?)\/>/g,
+        (_, min: string, attributes: string) =>
+          `<col min="${min}"${attributes} style="${
+            columnStyles[Number(min) - 1] ?? cellStyles.readOnly
+          }"/>`
+      )
+      .replace(
+        /<c r="([A-Z]+)(\d+)"([^>]*?)(\/?)>/g,
+        (_, column: string, row: string, attributes: string, end: string) =>
+          `<c r="${column}${row}"${attributes.replace(
+            / s="\d+"/,
+            ''
+          )} s="${getStyle(column, row)}"${end}>`
+      )
+      .replace(
+        /<\/sheetData>|<sheetData\/>/,
+        match =>
+          match +
+          '<sheetProtection sheet="1" formatColumns="0" formatRows="0" autoFilter="0"/>'
+      )
+  );
+}
+
+/**
+ * Add the fonts, fills and cell formats of the protected sheet to the styles
+ */
+function addCellStyles(xml: string) {
+  const bold = appendElements(xml, 'fonts', [
+    '<font><b/><sz val="12"/><color theme="1"/><name val="Calibri"/><family val="2"/><scheme val="minor"/></font>',
+  ]);
+  const fill = appendElements(bold.xml, 'fills', [
+    `<fill><patternFill patternType="solid"><fgColor rgb="${EDITABLE_FILL}"/><bgColor indexed="64"/></patternFill></fill>`,
+  ]);
+
+  const wrap = '<alignment vertical="top" wrapText="1"/>';
+  const unlocked = '<protection locked="0"/>';
+  const xf = (fontId: number, fillId: number, apply: string, children = '') =>
+    `<xf numFmtId="0" fontId="${fontId}" fillId="${fillId}" borderId="0" xfId="0" ${apply}>${children}</xf>`;
+  const editable = 'applyFill="1" applyProtection="1"';
+
+  const formats = appendElements(fill.xml, 'cellXfs', [
+    xf(bold.index, 0, 'applyFont="1"'),
+    xf(0, 0, 'applyAlignment="1"', wrap),
+    xf(0, fill.index, editable, unlocked),
+    xf(0, fill.index, `${editable} applyAlignment="1"`, wrap + unlocked),
+  ]);
+
+  const cellStyles: CellStyles = {
+    header: formats.index,
+    readOnly: 0,
+    readOnlyWrap: formats.index + 1,
+    editable: formats.index + 2,
+    editableWrap: formats.index + 3,
+  };
+  return { xml: formats.xml, cellStyles };
+}
+
+/**
+ * Append elements to a list element with a count attribute, e.g. `fonts`
+ *
+ * @returns Updated XML and the index of the first appended element
+ */
+function appendElements(xml: string, list: string, elements: string[]) {
+  const regex = new RegExp(`<${list} count="(\\d+)">([\\s\\S]*?)</${list}>`);
+  const match = regex.exec(xml);
+  if (match === null)
+    throw new Error(`Element ${list} missing from the styles of the xlsx file`);
+
+  const index = Number(match[1]);
+  const replaced = `<${list} count="${index + elements.length}">${
+    match[2]
+  }${elements.join('')}</${list}>`;
+  return {
+    xml:
+      xml.slice(0, match.index) +
+      replaced +
+      xml.slice(match.index + match[0].length),
+    index,
+  };
+}
+
+/**
+ * Create a data validation allowing the values of the list in a column
+ *
+ * @param name - Column name for the error messages
+ * @param column - Column letter, e.g. `H`
+ * @param list - Allowed values
+ * @returns dataValidation element
+ */
+function createValidation(name: string, column: string, list: string[]) {
+  if (list.some(value => value.includes(',')))
+    throw new Error(
+      `Values of the validation list of column ${name} must not contain commas`
+    );
+  const formula = list.join(',').replace(/"/g, '""');
+  if (formula.length > MAX_LIST_LENGTH)
+    throw new Error(
+      `Validation list of column ${name} is longer than ${MAX_LIST_LENGTH} characters`
+    );
+
+  return (
+    '<dataValidation type="list" errorStyle="warning" allowBlank="1" ' +
+    `showErrorMessage="1" sqref="${column}2:${column}${MAX_ROW}">` +
+    `<formula1>"${escapeXml(formula)}"</formula1></dataValidation>`
+  );
+}
+
+function getEntry(container: unknown, path: string) {
+  const entry = zip.find(container, path);
+  if (entry === null) throw new Error(`${path} missing from the xlsx file`);
+  return entry;
+}
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,343 @@
+import { parseStringPromise, Builder } from 'xml2js';
+import Debug from 'debug';
+const debug = Debug('yedxtract:xliff');
+
+import { parseTranslationUnitId, translationUnitId } from './labels';
+import { parseMetadata, serializeMetadata } from './metadata';
+import { compilePlaceholders } from './placeholders';
+
+import type {
+  TranslationDocument,
+  TranslationEntry,
+  XMLField,
+  XMLValue,
+} from './types';
+
+export type XliffVersion = '1.2' | '2.0';
+
+// Private use characters marking the placeholders while building the XML
+const MARKER_START = '\uE000';
+const MARKER_END = '\uE001';
+const MARKER_REGEX = /\uE000(\d+)\uE001/g;
+// Name of the text nodes among the ordered children of the parsed elements
+const TEXT_NODE = '__text__';
+
+const XLIFF_NAMESPACES: Record<XliffVersion, string> = {
+  '1.2': 'urn:oasis:names:tc:xliff:document:1.2',
+  '2.0': 'urn:oasis:names:tc:xliff:document:2.0',
+};
+
+/**
+ * Create an XLIFF file of the labels. Metadata is stored in the notes of the
+ * file element.
+ *
+ * @param document - Labels and metadata of the export
+ * @param [version] - XLIFF version
+ * @returns XLIFF file as a string
+ */
+export function createXliff(
+  document: TranslationDocument,
+  version: XliffVersion = '1.2'
+) {
+  debug(`Creating XLIFF ${version} file (${document.entries.length} units)`);
+
+  // Placeholders are replaced with markers which are replaced with inline
+  // elements once the text has been escaped
+  const codes: string[] = [];
+  const regex = document.metadata.placeholders
+    ? compilePlaceholders(document.metadata.placeholders)
+    : undefined;
+  const protect = (text: string) =>
+    regex
+      ? text.replace(
+          regex,
+          code => `${MARKER_START}${codes.push(code)}${MARKER_END}`
+        )
+      : text;
+  const protectedDocument = {
+    ...document,
+    entries: document.entries.map(entry => ({
+      ...entry,
+      source: protect(entry.source),
+      ...(entry.target !== undefined && { target: protect(entry.target) }),
+    })),
+  };
+
+  const xliff =
+    version === '1.2'
+      ? createXliff12(protectedDocument)
+      : createXliff20(protectedDocument);
+
+  const builder = new Builder({
+    xmldec: { version: '1.0', encoding: 'UTF-8' },
+  });
+  return builder
+    .buildObject({ xliff })
+    .replace(MARKER_REGEX, (_, id: string) =>
+      createInlineCode(id, codes[Number(id) - 1], version)
+    );
+}
+
+/**
+ * Parse an XLIFF 1.2 or 2.0 file created with `createXliff`
+ *
+ * @param xliffFile - XLIFF file as a string
+ * @returns Labels and metadata of the file
+ */
+export async function importXliff(
+  xliffFile: string
+): Promise<TranslationDocument> {
+  debug('Parsing XLIFF file');
+  // Children are kept also in document order so that the inline elements of
+  // the source and target elements can be resolved
+  const parsed: XMLField = await parseStringPromise(xliffFile, {
+    explicitChildren: true,
+    preserveChildrenOrder: true,
+    charsAsChildren: true,
+    includeWhiteChars: true,
+  });
+
+  const xliff = parsed.xliff;
+  if (typeof xliff !== 'object' || Array.isArray(xliff))
+    throw new Error('Invalid XLIFF file, xliff element missing');
+
+  const version = getAttribute(xliff, 'version') ?? '';
+  if (version.startsWith('1.')) return parseXliff12(xliff);
+  if (version.startsWith('2.')) return parseXliff20(xliff);
+  throw new Error(`Unsupported XLIFF version "${version}"`);
+}
+
+function createXliff12(document: TranslationDocument) {
+  const { metadata, sourceLanguage, targetLanguage, entries } = document;
+
+  const fileAttributes: Record<string, string> = {
+    original: metadata.yedFilename,
+    datatype: 'xml',
+    'source-language': sourceLanguage ?? 'en',
+  };
+  if (targetLanguage) fileAttributes['target-language'] = targetLanguage;
+
+  return {
+    $: { version: '1.2', xmlns: XLIFF_NAMESPACES['1.2'] },
+    file: {
+      $: fileAttributes,
+      header: { note: createMetadataNotes(document, 'from') },
+      body: {
+        'trans-unit': entries.map(entry => ({
+          $: { id: entry.id, 'xml:space': 'preserve' },
+          ...createSourceAndTarget(entry),
+          ...(entry.note !== undefined && { note: entry.note }),
+        })),
+      },
+    },
+  };
+}
+
+function createXliff20(document: TranslationDocument) {
+  const { metadata, sourceLanguage, targetLanguage, entries } = document;
+
+  const xliffAttributes: Record<string, string> = {
+    xmlns: XLIFF_NAMESPACES['2.0'],
+    version: '2.0',
+    srcLang: sourceLanguage ?? 'en',
+  };
+  if (targetLanguage) xliffAttributes.trgLang = targetLanguage;
+
+  // All labels of a node or edge are segments of the same unit
+  const units = new Map<string, { note?: string; segments: XMLField[] }>();
+  for (const entry of entries) {
+    const { id, column } = parseTranslationUnitId(entry.id);
+    const unit = units.get(id) ?? { note: entry.note, segments: [] };
+    unit.segments.push({ $: { id: column }, ...createSourceAndTarget(entry) });
+    units.set(id, unit);
+  }
+
+  return {
+    $: xliffAttributes,
+    file: {
+      $: { id: 'f1', original: metadata.yedFilename },
+      notes: { note: createMetadataNotes(document, 'category') },
+      unit: [...units].map(([id, { note, segments }]) => ({
+        $: { id, 'xml:space': 'preserve' },
+        ...(note !== undefined && {
+          notes: { note: { $: { category: 'context' }, _: note } },
+        }),
+        segment: segments,
+      })),
+    },
+  };
+}
+
+/**
+ * Create an inline element of a placeholder, XLIFF 1.2 has the code as the
+ * content and XLIFF 2.0 in the `equiv` and `disp` attributes
+ */
+function createInlineCode(id: string, code: string, version: XliffVersion) {
+  const escaped = escapeXml(code);
+  return version === '1.2'
+    ? `<ph id="${id}">${escaped}</ph>`
+    : `<ph id="${id}" equiv="${escaped}" disp="${escaped}"/>`;
+}
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function createSourceAndTarget(entry: TranslationEntry) {
+  return {
+    source: entry.source,
+    ...(entry.target !== undefined && { target: entry.target }),
+  };
+}
+
+function createMetadataNotes(
+  document: TranslationDocument,
+  nameAttribute: 'from' | 'category'
+) {
+  return Object.entries(serializeMetadata(document.metadata)).map(
+    ([name, value]) => ({ $: { [nameAttribute]: name }, _: value })
+  );
+}
+
+function parseXliff12(xliff: XMLField): TranslationDocument {
+  const files = getChildren(xliff, 'file');
+  if (files.length === 0) throw new Error('Invalid XLIFF file, file missing');
+  const [file] = files;
+
+  const notes = getChildren(getChildren(file, 'header')[0], 'note');
+  const metadata = parseMetadataNotes(notes, 'from');
+
+  const entries = files
+    .flatMap(file =>
+      collectElements(getChildren(file, 'body')[0], 'trans-unit')
+    )
+    .map(transUnit => ({
+      id: getAttribute(transUnit, 'id') ?? '',
+      source: getInlineText(getChildren(transUnit, 'source')[0]) ?? '',
+      target: getInlineText(getChildren(transUnit, 'target')[0]),
+      note: getText(getChildren(transUnit, 'note')[0]),
+    }));
+
+  return {
+    metadata,
+    sourceLanguage: getAttribute(file, 'source-language'),
+    targetLanguage: getAttribute(file, 'target-language'),
+    entries,
+  };
+}
+
+function parseXliff20(xliff: XMLField): TranslationDocument {
+  const files = getChildren(xliff, 'file');
+  if (files.length === 0) throw new Error('Invalid XLIFF file, file missing');
+
+  const notes = getChildren(getChildren(files[0], 'notes')[0], 'note');
+  const metadata = parseMetadataNotes(notes, 'category');
+
+  const entries = files
+    .flatMap(file => collectElements(file, 'unit'))
+    .flatMap(unit => {
+      const id = getAttribute(unit, 'id') ?? '';
+      const unitNotes = getChildren(getChildren(unit, 'notes')[0], 'note');
+      const note = getText(unitNotes[0]);
+
+      return getChildren(unit, 'segment').map(segment => ({
+        id: translationUnitId(id, getAttribute(segment, 'id') ?? 'label'),
+        source: getInlineText(getChildren(segment, 'source')[0]) ?? '',
+        target: getInlineText(getChildren(segment, 'target')[0]),
+        note,
+      }));
+    });
+
+  return {
+    metadata,
+    sourceLanguage: getAttribute(xliff, 'srcLang'),
+    targetLanguage: getAttribute(xliff, 'trgLang'),
+    entries,
+  };
+}
+
+function parseMetadataNotes(
+  notes: Array<string | XMLField>,
+  nameAttribute: 'from' | 'category'
+) {
+  const values: Record<string, string> = {};
+  for (const note of notes) {
+    const name = getAttribute(note, nameAttribute);
+    if (name !== undefined) values[name] = getText(note) ?? '';
+  }
+
+  const metadata = parseMetadata(values);
+  if (metadata === undefined)
+    throw new Error('Metadata notes missing from the XLIFF file');
+  return metadata;
+}
+
+/**
+ * Get the elements with the given name from the element and from the group
+ * elements within it
+ */
+function collectElements(
+  element: string | XMLField | undefined,
+  name: string
+): Array<string | XMLField> {
+  return [
+    ...getChildren(element, name),
+    ...getChildren(element, 'group').flatMap(group =>
+      collectElements(group, name)
+    ),
+  ];
+}
+
+function getChildren(element: XMLValue | undefined, name: string) {
+  if (element === undefined || typeof element === 'string' || isArray(element))
+    return [];
+  const children = element[name];
+  return isArray(children) ? children : [];
+}
+
+function getAttribute(element: XMLValue | undefined, name: string) {
+  if (element === undefined || typeof element === 'string' || isArray(element))
+    return undefined;
+  const attributes = element.$;
+  if (typeof attributes !== 'object' || isArray(attributes)) return undefined;
+  const value = attributes[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function getText(element: XMLValue | undefined) {
+  if (element === undefined || isArray(element)) return undefined;
+  if (typeof element === 'string') return element;
+  const text = element._;
+  return typeof text === 'string' ? text : '';
+}
+
+/**
+ * Get the text of a source or target element with the inline `<ph>` elements
+ * of placeholders replaced with their codes. Self-closing placeholders of
+ * XLIFF 2.0 have the code in `equiv`, XLIFF 1.2 placeholders contain it.
+ * Other inline elements are replaced with their text.
+ */
+function getInlineText(element: XMLValue | undefined): string | undefined {
+  if (element === undefined || isArray(element)) return undefined;
+  if (typeof element === 'string') return element;
+
+  const children = element.$$;
+  if (!isArray(children)) return getText(element);
+  return children
+    .map(child => {
+      if (typeof child === 'string') return child;
+      if (child['#name'] === TEXT_NODE) return getText(child);
+      if (child['#name'] === 'ph' && !isArray(child.$$))
+        return getAttribute(child, 'equiv') ?? '';
+      return getInlineText(child);
+    })
+    .join('');
+}
+
+function isArray(value: XMLValue): value is Array<string | XMLField> {
+  return Array.isArray(value);
+}